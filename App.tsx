@@ -1,149 +1,269 @@
 import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
-import type { SheetData, Row, SortConfig, StoredSheet, SheetMetadata } from './types';
+import type { SheetData, Row, SortConfig, StoredSheet, SheetMetadata, DateFilter, ImportFileResult, ImportLogEntry, ImportProfile, SnapshotReason } from './types';
 import DataTable from './components/DataTable';
 import { MainMenu } from './components/MainMenu';
 import { DataPreviewModal } from './components/DataPreviewModal';
-import * as XLSX from 'xlsx';
-const STORAGE_SHEETS_KEY = 'spreadsheets';
+import { WorksheetSelectionModal } from './components/WorksheetSelectionModal';
+import type { WorksheetImportMode } from './components/WorksheetSelectionModal';
+import { ImportProgressModal } from './components/ImportProgressModal';
+import { PasteDataModal } from './components/PasteDataModal';
+import { ImportHistoryModal } from './components/ImportHistoryModal';
+import { StorageModal } from './components/StorageModal';
+import { UndoToast } from './components/UndoToast';
+import { BackupModal } from './components/BackupModal';
+import { SyncNotice } from './components/SyncNotice';
+import { SheetInfoModal } from './components/SheetInfoModal';
+import { KeyColumnsModal } from './components/KeyColumnsModal';
+import { DeduplicateModal } from './components/DeduplicateModal';
+import type { DeduplicationReport } from './components/DeduplicateModal';
+import { MergePreviewModal } from './components/MergePreviewModal';
+import { SnapshotHistoryModal } from './components/SnapshotHistoryModal';
+import {
+  ParseError,
+  buildWorksheetData,
+  getDefaultBuildOptions,
+  summarizeWorksheetImport,
+  combineWorksheets,
+  SUPPORTED_FILE_PATTERN,
+  SUPPORTED_FILE_ACCEPT,
+  SUPPORTED_FILE_LABEL,
+} from './utils/workbookParser';
+import type { WorksheetSource, ParsedWorksheet } from './utils/workbookParser';
+import { startParseJob } from './utils/parserClient';
+import { readClipboardWorksheet, CLIPBOARD_SOURCE_NAME } from './utils/clipboard';
+import { openSheetStorage, createLocalStorageBackend } from './utils/sheetStorage';
+import type { SheetStorage, QuarantinedSheet } from './utils/sheetStorage';
+import { checkDataFits, compactSheet, formatBytes } from './utils/storageUsage';
+import { createSnapshot } from './utils/snapshots';
+import { buildWorkspaceBackup, downloadWorkspaceBackup, planBackupRestore } from './utils/backup';
+import type { BackupCollisionMode, BackupOptions, WorkspaceBackup } from './utils/backup';
+import { notifySheetChange, subscribeToSheetChanges } from './utils/tabSync';
+import { downloadBlob } from './utils/download';
+import { buildSheetKey, buildSheetName } from './utils/sheetMetadata';
+import { applyMergePlan, resolveKeyColumns } from './utils/rowMerge';
+import type { MergePlan } from './utils/rowMerge';
+import { SURVIVOR_RULES } from './utils/deduplication';
+import { describeSchemaEvolution, diffHeaders, evolveSheet, planSchemaEvolution } from './utils/schemaEvolution';
+import type { SchemaEvolution } from './utils/schemaEvolution';
+import { findExpiredTrash, isInTrash, loadTrashRetentionDays, saveTrashRetentionDays } from './utils/trash';
+import {
+  loadImportProfiles,
+  saveImportProfile,
+  deleteImportProfile,
+  findMatchingProfile,
+  getProfileBuildOptions,
+} from './utils/importProfiles';
+import { applyColumnTypes, compareTypedValues, inferColumnTypes, matchesTypedFilter } from './utils/columnTypes';
+import { matchesDateFilter, isDateFilterActive } from './utils/dates';
+import type { ParseJob, ParseProgress } from './utils/parserClient';
+import { IMPORT_HISTORY_LIMIT } from './utils/importHistory';
 const STORAGE_CURRENT_KEY = 'currentSheet';
 
-// Utility functions for storage
-const loadAllSheets = (): Record<string, StoredSheet> => {
-  try {
-    const stored = localStorage.getItem(STORAGE_SHEETS_KEY);
-    return stored ? JSON.parse(stored) : {};
-  } catch (error) {
-    console.error('Error loading sheets:', error);
-    return {};
-  }
-};
+// Ações mantidas para Ctrl+Z / Ctrl+Shift+Z
+const UNDO_LIMIT = 30;
+
+// Alteração reversível de uma planilha; null representa planilha inexistente
+interface UndoEntry {
+  label: string;
+  sheetKey: string;
+  before: StoredSheet | null;
+  after: StoredSheet | null;
+}
+
+// Mesclagem simulada, aguardando a confirmação na pré-visualização
+interface PendingMerge {
+  sheetKey: string;
+  baseRows: Row[]; // Linhas da planilha no momento da simulação
+  evolution: SchemaEvolution | null; // Colunas renomeadas ou acrescentadas ao confirmar
+  existingRows: Row[]; // Linhas da planilha já com as colunas novas
+  incomingRows: Row[]; // Já convertidas para os tipos da planilha
+  headers: string[];
+  keyColumns: string[];
+  importResults: ImportFileResult[]; // Vão para o histórico ao confirmar
+  sourceFiles: string[];
+}
 
+// Armazenamento das planilhas, aberto na inicialização (IndexedDB ou localStorage)
+let sheetStorage: SheetStorage = createLocalStorageBackend();
+
+// Avisado quando uma gravação falha; o App abre a tela de armazenamento
+let handleStorageError = (message: string) => alert(message);
+
+// As gravações são assíncronas; a interface já usa o estado atualizado.
+// Ao terminar, as outras abas são avisadas para recarregar a planilha.
 const saveSheet = (sheet: StoredSheet) => {
-  try {
-    const allSheets = loadAllSheets();
-    allSheets[sheet.metadata.key] = sheet;
-    localStorage.setItem(STORAGE_SHEETS_KEY, JSON.stringify(allSheets));
-  } catch (error) {
+  sheetStorage.save(sheet).then(() => notifySheetChange('saved', sheet.metadata.key)).catch(error => {
     console.error('Error saving sheet:', error);
-    alert('Erro ao salvar dados. O armazenamento local pode estar cheio.');
-  }
+    handleStorageError(`Erro ao salvar "${sheet.metadata.name}". O armazenamento do navegador pode estar cheio.`);
+  });
+};
+
+// Cópia da planilha antes de alterá-la; enfileirada antes da gravação seguinte
+const snapshotSheet = (sheet: StoredSheet, reason: SnapshotReason, sourceFiles: string[] = []) => {
+  createSnapshot(sheetStorage, sheet, reason, sourceFiles).catch(error => {
+    console.error('Error creating snapshot:', error);
+  });
 };
 
 const deleteSheet = (sheetKey: string) => {
-  try {
-    const allSheets = loadAllSheets();
-    delete allSheets[sheetKey];
-    localStorage.setItem(STORAGE_SHEETS_KEY, JSON.stringify(allSheets));
-  } catch (error) {
+  sheetStorage.delete(sheetKey).then(() => notifySheetChange('deleted', sheetKey)).catch(error => {
     console.error('Error deleting sheet:', error);
-  }
+  });
 };
 
-// --- Merge Report Modal Component ---
-interface MergeReportModalProps {
-  report: {
-    updated: string[];
-    new: string[];
+const failedImportResult = (fileName: string, message: string, worksheet?: string): ImportFileResult => ({
+  fileName,
+  worksheet,
+  status: 'failed',
+  rowsRead: 0,
+  emptyRowsSkipped: 0,
+  message,
+});
+
+const skippedImportResult = (source: WorksheetSource, message: string): ImportFileResult => ({
+  fileName: source.fileName,
+  worksheet: source.sheet.name,
+  status: 'skipped',
+  rowsRead: 0,
+  emptyRowsSkipped: 0,
+  message,
+});
+
+// Acrescentar uma importação ao histórico da planilha (mais recente primeiro)
+const appendImportHistory = (
+  sheet: StoredSheet | null,
+  action: ImportLogEntry['action'],
+  files: ImportFileResult[],
+  rowsAdded: number,
+  rowsUpdated: number,
+  rowsRemoved = 0
+): ImportLogEntry[] => {
+  const now = new Date();
+  const entry: ImportLogEntry = {
+    id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    importedAt: now.toISOString(),
+    action,
+    files,
+    rowsAdded,
+    rowsUpdated,
+    ...(rowsRemoved > 0 ? { rowsRemoved } : {}),
   };
-  onClose: () => void;
-}
-
-const MergeReportModal: React.FC<MergeReportModalProps> = ({ report, onClose }) => {
-  return (
-    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
-        <header className="p-4 border-b">
-          <h2 className="text-xl font-bold text-gray-800">Relatório de Mesclagem</h2>
-        </header>
-        <div className="p-6 flex-grow overflow-y-auto">
-          <div className="mb-4 text-gray-700 space-y-1">
-            <p><strong className="font-semibold text-indigo-600">{report.updated.length}</strong> registros foram atualizados.</p>
-            <p><strong className="font-semibold text-indigo-600">{report.new.length}</strong> novos registros foram adicionados.</p>
-          </div>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="flex flex-col">
-              <h3 className="text-lg font-semibold text-gray-700 mb-2">Registros Atualizados</h3>
-              <div className="border rounded-md bg-gray-50 flex-grow p-3 overflow-y-auto min-h-[150px]">
-                {report.updated.length > 0 ? (
-                  <ul className="list-disc list-inside space-y-1">
-                    {report.updated.map((id) => <li key={`updated-${id}`} className="text-sm text-gray-600 truncate">{id}</li>)}
-                  </ul>
-                ) : (
-                  <p className="text-sm text-gray-500 italic mt-2">Nenhum registro atualizado.</p>
-                )}
-              </div>
-            </div>
-
-            <div className="flex flex-col">
-              <h3 className="text-lg font-semibold text-gray-700 mb-2">Novos Registros</h3>
-              <div className="border rounded-md bg-gray-50 flex-grow p-3 overflow-y-auto min-h-[150px]">
-                {report.new.length > 0 ? (
-                  <ul className="list-disc list-inside space-y-1">
-                    {report.new.map((id) => <li key={`new-${id}`} className="text-sm text-gray-600 truncate">{id}</li>)}
-                  </ul>
-                ) : (
-                   <p className="text-sm text-gray-500 italic mt-2">Nenhum registro novo.</p>
-                )}
-              </div>
-            </div>
-          </div>
-        </div>
-
-        <footer className="p-4 bg-gray-50 border-t text-right">
-          <button
-            onClick={onClose}
-            className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition duration-150"
-          >
-            Fechar
-          </button>
-        </footer>
-      </div>
-    </div>
-  );
+  return [entry, ...(sheet?.importHistory ?? [])].slice(0, IMPORT_HISTORY_LIMIT);
 };
 
-
-// --- Main App Component ---
 const App: React.FC = () => {
   const [allSheets, setAllSheets] = useState<Record<string, StoredSheet>>({});
   const [currentSheetKey, setCurrentSheetKey] = useState<string | null>(null);
   const [showMainMenu, setShowMainMenu] = useState(true);
   const [filters, setFilters] = useState<Record<string, string>>({});
   const [debouncedFilters, setDebouncedFilters] = useState<Record<string, string>>({});
+  const [dateFilters, setDateFilters] = useState<Record<string, DateFilter>>({});
   const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
-  const [mergeReport, setMergeReport] = useState<{ updated: string[]; new: string[] } | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
   const [pendingFileData, setPendingFileData] = useState<SheetData | null>(null);
   const [isUpdatingCurrentSheet, setIsUpdatingCurrentSheet] = useState(false);
-  const [showDataPreview, setShowDataPreview] = useState(false);
-  const [previewData, setPreviewData] = useState<SheetData | null>(null);
-  const [currentFileName, setCurrentFileName] = useState<string>('');
+  const [previewQueue, setPreviewQueue] = useState<WorksheetSource[]>([]);
+  const [worksheetSelection, setWorksheetSelection] = useState<{ worksheets: WorksheetSource[]; isMerging: boolean } | null>(null);
   const [isLoadingFile, setIsLoadingFile] = useState(false);
+  const [importProgress, setImportProgress] = useState<ParseProgress | null>(null);
+  const [importResults, setImportResults] = useState<ImportFileResult[]>([]);
+  const [showImportHistory, setShowImportHistory] = useState(false);
+  const [showStorage, setShowStorage] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showSheetInfo, setShowSheetInfo] = useState(false);
+  const [showKeyColumns, setShowKeyColumns] = useState(false);
+  const [showDeduplicate, setShowDeduplicate] = useState(false);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [quarantinedSheets, setQuarantinedSheets] = useState<QuarantinedSheet[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(() => loadTrashRetentionDays());
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>(() => loadImportProfiles());
   const [isDragging, setIsDragging] = useState(false);
+  const [showPasteModal, setShowPasteModal] = useState(false);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const [undoToast, setUndoToast] = useState<string | null>(null);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
   const filterTimeoutRef = useRef<NodeJS.Timeout>();
   const isUpdatingRef = useRef(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastImportedKeyRef = useRef<string | null>(null);
+  // Planilha aberta, lida pelos avisos de outras abas
+  const currentSheetKeyRef = useRef<string | null>(null);
+  const parseJobRef = useRef<ParseJob | null>(null);
+  // Resultado de cada arquivo do lote de importação em andamento
+  const importBatchRef = useRef<ImportFileResult[]>([]);
+  const pendingImportResultRef = useRef<ImportFileResult | null>(null);
+  // Renomeações de colunas escolhidas na pré-visualização de uma atualização
+  const pendingColumnRenamesRef = useRef<Record<string, string>>({});
 
   const currentSheet = currentSheetKey ? allSheets[currentSheetKey] : null;
 
   // Load sheets on mount
   useEffect(() => {
-    const sheets = loadAllSheets();
-    setAllSheets(sheets);
-    
-    // Use sessionStorage para permitir abas independentes
+    let cancelled = false;
+    // Ler antes do primeiro await: o efeito abaixo limpa a chave enquanto não há planilha aberta
     const storedCurrent = sessionStorage.getItem(STORAGE_CURRENT_KEY);
-    if (storedCurrent && sheets[storedCurrent]) {
-      setCurrentSheetKey(storedCurrent);
-      setShowMainMenu(false);
-    }
-    
-    setIsInitialized(true);
+
+    const loadSheets = async () => {
+      const startedAt = new Date().toISOString();
+      let sheets: Record<string, StoredSheet> = {};
+      let quarantined: QuarantinedSheet[] = [];
+      try {
+        sheetStorage = await openSheetStorage();
+        sheets = await sheetStorage.loadAll();
+        quarantined = await sheetStorage.listQuarantined();
+      } catch (error) {
+        console.error('Error loading sheets:', error);
+        alert('Erro ao carregar as planilhas salvas.');
+      }
+      if (cancelled) return;
+
+      // Excluir de vez as planilhas na lixeira há mais tempo que o prazo
+      findExpiredTrash(Object.values(sheets).map(sheet => sheet.metadata), loadTrashRetentionDays()).forEach(sheetKey => {
+        deleteSheet(sheetKey);
+        delete sheets[sheetKey];
+      });
+
+      setAllSheets(sheets);
+      setQuarantinedSheets(quarantined);
+
+      // Avisar só dos registros separados nesta abertura
+      const newlyQuarantined = quarantined.filter(entry => entry.quarantinedAt >= startedAt);
+      if (newlyQuarantined.length > 0) {
+        alert(
+          `${newlyQuarantined.length} planilha(s) não puderam ser lidas e foram separadas em quarentena: ` +
+          `${newlyQuarantined.map(entry => entry.key).join(', ')}.\n\nVeja em "Armazenamento" no menu principal.`
+        );
+      }
+
+      // Use sessionStorage para permitir abas independentes
+      if (storedCurrent && sheets[storedCurrent] && !isInTrash(sheets[storedCurrent].metadata)) {
+        setCurrentSheetKey(storedCurrent);
+        setShowMainMenu(false);
+      }
+
+      setIsInitialized(true);
+    };
+
+    loadSheets();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Falhas de gravação abrem a tela de armazenamento para liberar espaço
+  useEffect(() => {
+    handleStorageError = (message: string) => {
+      setStorageWarning(message);
+      setShowStorage(true);
+    };
   }, []);
 
   // Save current sheet key - usa sessionStorage para isolar cada aba
   useEffect(() => {
+    currentSheetKeyRef.current = currentSheetKey;
     if (currentSheetKey) {
       sessionStorage.setItem(STORAGE_CURRENT_KEY, currentSheetKey);
     } else {
@@ -151,351 +271,369 @@ const App: React.FC = () => {
     }
   }, [currentSheetKey]);
 
-  // Função para processar múltiplos arquivos
-  const handleMultipleFiles = useCallback(async (files: File[], isMerging: boolean = false) => {
-    if (files.length === 0) return;
+  // Gravar (ou excluir, com null) uma planilha no estado e no armazenamento
+  const writeSheetState = useCallback((sheetKey: string, sheet: StoredSheet | null) => {
+    if (sheet) {
+      saveSheet(sheet);
+      setAllSheets(prev => ({ ...prev, [sheetKey]: sheet }));
+      return;
+    }
+    deleteSheet(sheetKey);
+    setAllSheets(prev => {
+      const newSheets = { ...prev };
+      delete newSheets[sheetKey];
+      return newSheets;
+    });
+    if (sheetKey === currentSheetKey) {
+      setCurrentSheetKey(null);
+      setShowMainMenu(true);
+    }
+  }, [currentSheetKey]);
 
-    const processedFiles: Array<{ fileName: string; data: SheetData }> = [];
+  // Aplicar uma alteração registrando-a para desfazer. O aviso com
+  // "Desfazer" aparece só nas ações destrutivas.
+  const applySheetChange = useCallback((
+    label: string,
+    sheetKey: string,
+    after: StoredSheet | null,
+    showToast = true
+  ) => {
+    const before = allSheets[sheetKey] ?? null;
+    writeSheetState(sheetKey, after);
+    setUndoStack(prev => [...prev, { label, sheetKey, before, after }].slice(-UNDO_LIMIT));
+    setRedoStack([]);
+    if (showToast) setUndoToast(label);
+  }, [allSheets, writeSheetState]);
+
+  const handleUndo = useCallback(() => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    writeSheetState(entry.sheetKey, entry.before);
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, entry]);
+    setUndoToast(null);
+  }, [undoStack, writeSheetState]);
+
+  const handleDismissUndoToast = useCallback(() => setUndoToast(null), []);
+
+  const handleRedo = useCallback(() => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    writeSheetState(entry.sheetKey, entry.after);
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, entry]);
+  }, [redoStack, writeSheetState]);
+
+  // Ctrl+Z / Ctrl+Shift+Z, exceto ao digitar em campos (que têm o próprio desfazer)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Recarregar as planilhas alteradas em outras abas. O histórico de desfazer
+  // da planilha é descartado, pois voltaria a sobrescrever a outra aba.
+  useEffect(() => {
+    if (!isInitialized) return;
+
+    return subscribeToSheetChanges(async ({ kind, sheetKey }) => {
+      let sheet: StoredSheet | null = null;
+      if (kind === 'saved') {
+        try {
+          sheet = await sheetStorage.load(sheetKey);
+        } catch (error) {
+          console.error('Error reloading sheet changed in another tab:', error);
+          return;
+        }
+      }
+
+      setAllSheets(prev => {
+        const newSheets = { ...prev };
+        if (sheet) {
+          newSheets[sheetKey] = sheet;
+        } else {
+          delete newSheets[sheetKey];
+        }
+        return newSheets;
+      });
+      setUndoStack(prev => prev.filter(entry => entry.sheetKey !== sheetKey));
+      setRedoStack(prev => prev.filter(entry => entry.sheetKey !== sheetKey));
+
+      if (sheetKey !== currentSheetKeyRef.current) return;
+      if (sheet && isInTrash(sheet.metadata)) {
+        setSyncNotice(`A planilha "${sheet.metadata.name}" foi movida para a lixeira em outra aba.`);
+        setCurrentSheetKey(null);
+        setShowMainMenu(true);
+      } else if (sheet) {
+        setSyncNotice(`A planilha "${sheet.metadata.name}" foi alterada em outra aba. Os dados exibidos foram atualizados.`);
+      } else {
+        setSyncNotice(`A planilha "${sheetKey}" foi excluída em outra aba.`);
+        setCurrentSheetKey(null);
+        setShowMainMenu(true);
+      }
+    });
+  }, [isInitialized]);
+
+  // Encerrar o lote de importação. O painel de resultado só aparece quando
+  // houve falha ou mais de um arquivo; o histórico da planilha guarda tudo.
+  const finishImportBatch = useCallback(() => {
+    const results = importBatchRef.current;
+    importBatchRef.current = [];
+    if (results.length > 1 || results.some(result => result.status === 'failed')) {
+      setImportResults(results);
+    }
+  }, []);
+
+  // Mesclar as abas selecionadas na planilha atual
+  const mergeIntoCurrentSheet = useCallback((sources: WorksheetSource[]) => {
+    if (!currentSheet || !currentSheetKey) return;
+
+    const baseHeaders = currentSheet.data.headers;
+    const allNewRows: Row[] = [];
+    const addedColumns: string[] = [];
+    let needsColumnReview = false;
     
-    for (const file of files) {
+    // Combinar dados de todas as abas usando o melhor cabeçalho detectado
+    sources.forEach(source => {
+      const { fileName, sheet } = source;
       try {
-        const data = await new Promise<SheetData>((resolve, reject) => {
-          const reader = new FileReader();
-          
-          reader.onload = (e) => {
-            try {
-              const fileData = e.target?.result;
-              if (!fileData) {
-                reject(new Error("Não foi possível ler o arquivo."));
-                return;
-              }
-              
-              const workbook = XLSX.read(fileData, { type: 'binary' });
-              const sheetName = workbook.SheetNames[0];
-              const worksheet = workbook.Sheets[sheetName];
-              
-              const allData: any[][] = XLSX.utils.sheet_to_json(worksheet, {
-                header: 1,
-                defval: null,
-              });
-              
-              if (allData.length < 2) {
-                reject(new Error(`${file.name}: Planilha vazia ou sem dados suficientes.`));
-                return;
-              }
-
-              // Detectar cabeçalho
-              let headerRowIndex = -1;
-              let potentialHeaders: any[] = [];
-              
-              // Tentar linha 2 (índice 1)
-              if (allData.length > 1 && allData[1]) {
-                const row1 = allData[1];
-                const validCells = row1.filter(cell => 
-                  cell !== null && cell !== undefined && String(cell).trim() !== ''
-                );
-                
-                if (validCells.length >= 3 && validCells.every(cell => typeof cell === 'string')) {
-                  headerRowIndex = 1;
-                  potentialHeaders = row1;
-                }
-              }
-              
-              // Tentar linha 3 (índice 2)
-              if (headerRowIndex === -1 && allData.length > 2 && allData[2]) {
-                const row2 = allData[2];
-                const validCells = row2.filter(cell => 
-                  cell !== null && cell !== undefined && String(cell).trim() !== ''
-                );
-                
-                if (validCells.length >= 3 && validCells.every(cell => typeof cell === 'string')) {
-                  headerRowIndex = 2;
-                  potentialHeaders = row2;
-                }
-              }
-              
-              // Usar primeira linha não vazia
-              if (headerRowIndex === -1) {
-                for (let i = 0; i < Math.min(5, allData.length); i++) {
-                  const row = allData[i];
-                  const validCells = row.filter(cell => 
-                    cell !== null && cell !== undefined && String(cell).trim() !== ''
-                  );
-                  if (validCells.length >= 2) {
-                    headerRowIndex = i;
-                    potentialHeaders = row;
-                    break;
-                  }
-                }
-              }
-              
-              if (headerRowIndex === -1) {
-                reject(new Error(`${file.name}: Não foi possível detectar o cabeçalho.`));
-                return;
-              }
-
-              // Encontrar última coluna válida
-              let lastValidIndex = potentialHeaders.length;
-              for (let i = 0; i < potentialHeaders.length; i++) {
-                const header = potentialHeaders[i];
-                if (header === null || header === undefined || String(header).trim() === '') {
-                  lastValidIndex = i;
-                  break;
-                }
-              }
-              
-              const headers: string[] = potentialHeaders.slice(0, lastValidIndex).map(String);
-              
-              if (headers.length === 0) {
-                reject(new Error(`${file.name}: Nenhuma coluna válida encontrada.`));
-                return;
-              }
-              
-              const dataRows = allData.slice(headerRowIndex + 1);
-              const rows: Row[] = dataRows.map(rowData => {
-                const rowObject: Row = {};
-                headers.forEach((header, index) => {
-                  rowObject[header] = rowData[index];
-                });
-                return rowObject;
-              }).filter(row => {
-                return Object.values(row).some(val => val !== null && val !== undefined);
-              });
-
-              resolve({ headers, rows });
-            } catch (error) {
-              reject(error);
-            }
-          };
-
-          reader.onerror = () => {
-            reject(new Error(`${file.name}: Erro ao ler o arquivo.`));
-          };
-
-          reader.readAsBinaryString(file);
+        // Um perfil reconhecido pelo cabeçalho define a leitura e as colunas fixas
+        const match = findMatchingProfile(sheet, importProfiles);
+        const options = match ? getProfileBuildOptions(match.profile, match.headerRowIndex) : getDefaultBuildOptions(sheet);
+        const built = buildWorksheetData(sheet, options);
+        // As linhas da aba são compartilhadas: as colunas fixas do perfil vão em cópias
+        const customColumns = match?.profile.customColumns ?? [];
+        const customValues: Row = {};
+        customColumns.forEach(column => { customValues[column.name] = column.value; });
+        const sheetRows = customColumns.length > 0 ? built.rows.map(row => ({ ...row, ...customValues })) : built.rows;
+
+        // Com um arquivo só, colunas diferentes são revisadas na pré-visualização;
+        // com vários, as colunas novas são acrescentadas à planilha
+        const { added, removed } = diffHeaders(
+          baseHeaders,
+          [...built.headers, ...customColumns.map(column => column.name)]
+        );
+        if (sources.length === 1 && (added.length > 0 || removed.length > 0)) {
+          needsColumnReview = true;
+          return;
+        }
+        added.forEach(header => {
+          if (!addedColumns.includes(header)) addedColumns.push(header);
+        });
+        allNewRows.push(...sheetRows);
+        importBatchRef.current.push({
+          ...summarizeWorksheetImport(fileName, sheet, options, sheetRows.length),
+          message: match ? `Perfil aplicado: ${match.profile.name}` : undefined,
         });
-
-        processedFiles.push({ fileName: file.name, data });
       } catch (error) {
         console.error(error);
-        alert(error instanceof Error ? error.message : `Erro ao processar ${file.name}`);
+        importBatchRef.current.push(failedImportResult(
+          fileName,
+          error instanceof Error ? error.message : 'Erro ao processar a aba.',
+          sheet.name
+        ));
       }
-    }
+    });
 
-    if (processedFiles.length === 0) {
-      setIsLoadingFile(false);
+    // Um arquivo só, com colunas diferentes: vai para a pré-visualização, onde as
+    // colunas novas, ausentes e renomeadas são revisadas antes da mesclagem
+    if (needsColumnReview) {
+      isUpdatingRef.current = true;
+      setIsUpdatingCurrentSheet(true);
+      setPreviewQueue([sources[0]]);
       return;
     }
 
-    // Se está mesclando, combinar todos os dados
-    if (isMerging && currentSheet) {
-      const baseHeaders = currentSheet.data.headers;
-      const allNewRows: Row[] = [];
-      const updatedRows: string[] = [];
-      const newRows: string[] = [];
-      
-      // Combinar dados de todos os arquivos
-      processedFiles.forEach(({ data }) => {
-        allNewRows.push(...data.rows);
-      });
+    // As colunas novas entram na planilha com o tipo inferido dos novos dados
+    const incomingData: SheetData = { headers: [...baseHeaders, ...addedColumns], rows: allNewRows };
+    const evolution = planSchemaEvolution(baseHeaders, {
+      ...incomingData,
+      columnTypes: inferColumnTypes({ headers: addedColumns, rows: allNewRows }),
+    });
+    const evolvedSheet = evolution ? evolveSheet(currentSheet, evolution) : currentSheet;
+    const evolvedHeaders = evolvedSheet.data.headers;
 
-      // Mesclar com dados existentes
-      const mergedRows = [...currentSheet.data.rows];
-      
-      allNewRows.forEach(newRow => {
-        // Criar hash da linha para comparação
-        const newRowHash = baseHeaders.map(h => String(newRow[h] || '')).join('|');
-        
-        const existingIndex = mergedRows.findIndex(existingRow => {
-          const existingHash = baseHeaders.map(h => String(existingRow[h] || '')).join('|');
-          return existingHash === newRowHash;
+    // Converter os valores novos para os tipos já usados na planilha
+    const incomingRows = evolvedSheet.data.columnTypes
+      ? applyColumnTypes(incomingData, evolvedSheet.data.columnTypes).rows
+      : allNewRows;
+
+    // A mesclagem é simulada na pré-visualização e só gravada ao confirmar
+    if (incomingRows.length === 0) {
+      finishImportBatch();
+      return;
+    }
+    setPendingMerge({
+      sheetKey: currentSheetKey,
+      baseRows: currentSheet.data.rows,
+      evolution,
+      existingRows: evolvedSheet.data.rows,
+      incomingRows,
+      headers: evolvedHeaders,
+      keyColumns: resolveKeyColumns(evolvedSheet.keyColumns, evolvedHeaders),
+      importResults: [...importBatchRef.current],
+      sourceFiles: sources.map(({ fileName }) => fileName),
+    });
+  }, [currentSheet, currentSheetKey, importProfiles, finishImportBatch]);
+
+  // Encaminhar as abas escolhidas para mesclagem ou pré-visualização
+  const importWorksheets = useCallback((
+    selected: WorksheetSource[],
+    mode: WorksheetImportMode,
+    addSourceColumn: boolean,
+    isMerging: boolean
+  ) => {
+    if (selected.length === 0) return;
+
+    if (isMerging) {
+      mergeIntoCurrentSheet(selected);
+      return;
+    }
+
+    if (mode === 'append' && selected.length > 1) {
+      try {
+        const combined = combineWorksheets(
+          selected.map(s => s.sheet.name).join(' + '),
+          selected.map(s => s.sheet),
+          addSourceColumn ? 'Aba' : undefined
+        );
+        setPreviewQueue([{ fileName: selected[0].fileName, sheet: combined }]);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Não foi possível combinar as abas.';
+        selected.forEach(({ fileName, sheet }) => {
+          importBatchRef.current.push(failedImportResult(fileName, message, sheet.name));
         });
+        finishImportBatch();
+      }
+      return;
+    }
 
-        if (existingIndex !== -1) {
-          // Atualizar linha existente
-          mergedRows[existingIndex] = { ...mergedRows[existingIndex], ...newRow };
-          updatedRows.push(newRowHash);
-        } else {
-          // Adicionar nova linha
-          mergedRows.push(newRow);
-          newRows.push(newRowHash);
-        }
+    // Cada aba vira uma planilha, pré-visualizada uma de cada vez
+    setPreviewQueue(selected);
+  }, [mergeIntoCurrentSheet, finishImportBatch]);
+
+  // Função para processar múltiplos arquivos (a leitura acontece em um worker)
+  const handleMultipleFiles = useCallback(async (files: File[], isMerging: boolean = false) => {
+    if (files.length === 0) return;
+
+    setImportResults([]);
+    const job = startParseJob(files, setImportProgress);
+    parseJobRef.current = job;
+    const result = await job.promise;
+    parseJobRef.current = null;
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    setIsLoadingFile(false);
+    setImportProgress(null);
+    importBatchRef.current = result.errors.map(error => failedImportResult(error.fileName, error.message));
+
+    if (result.cancelled) {
+      finishImportBatch();
+      return;
+    }
+
+    const worksheets: WorksheetSource[] = [];
+    result.workbooks.forEach(workbook => {
+      workbook.sheets.forEach(sheet => worksheets.push({ fileName: workbook.fileName, sheet }));
+    });
+
+    if (worksheets.length === 0) {
+      finishImportBatch();
+      return;
+    }
+
+    // Avisar antes de importar dados que não cabem no espaço livre (tamanho estimado no worker)
+    const { fits, required, available } = await checkDataFits(
+      sheetStorage.kind,
+      worksheets.reduce((total, { sheet }) => total + sheet.estimatedBytes, 0)
+    );
+    if (!fits && !confirm(
+      `Os dados importados ocupam cerca de ${formatBytes(required)}, mas restam apenas ${formatBytes(available)} livres no navegador.\n\n` +
+      'A gravação pode falhar. Libere espaço em "Armazenamento" no menu principal ou continue mesmo assim.\n\nContinuar?'
+    )) {
+      worksheets.forEach(worksheet => {
+        importBatchRef.current.push(skippedImportResult(worksheet, 'Importação cancelada: espaço de armazenamento insuficiente.'));
       });
+      finishImportBatch();
+      return;
+    }
 
-      const updatedSheet: StoredSheet = {
-        ...currentSheet,
-        data: {
-          ...currentSheet.data,
-          rows: mergedRows,
-        },
-        metadata: {
-          ...currentSheet.metadata,
-          updatedAt: new Date().toISOString(),
-        },
-      };
+    // Perguntar quais abas importar quando algum arquivo tiver mais de uma
+    if (result.workbooks.some(workbook => workbook.sheets.length > 1)) {
+      setWorksheetSelection({ worksheets, isMerging });
+      return;
+    }
 
-      saveSheet(updatedSheet);
-      setAllSheets(prev => ({ ...prev, [currentSheetKey!]: updatedSheet }));
-      setMergeReport({ updated: updatedRows, new: newRows });
-      setIsLoadingFile(false);
-    } else {
-      // Mostrar pré-visualização para nova planilha (primeiro arquivo)
-      const firstFile = processedFiles[0];
-      setPreviewData(firstFile.data);
-      setCurrentFileName(firstFile.fileName);
-      setShowDataPreview(true);
-      setIsLoadingFile(false);
+    importWorksheets(worksheets, isMerging ? 'append' : 'separate', false, isMerging);
+  }, [importWorksheets, finishImportBatch]);
+
+  const handleCancelImport = useCallback(() => {
+    parseJobRef.current?.cancel();
+  }, []);
+
+  const handleConfirmWorksheetSelection = useCallback((
+    selected: WorksheetSource[],
+    mode: WorksheetImportMode,
+    addSourceColumn: boolean
+  ) => {
+    if (!worksheetSelection) return;
+    setWorksheetSelection(null);
+    worksheetSelection.worksheets
+      .filter(worksheet => !selected.includes(worksheet))
+      .forEach(worksheet => importBatchRef.current.push(skippedImportResult(worksheet, 'Aba não selecionada.')));
+    if (selected.length === 0) {
+      finishImportBatch();
+      return;
     }
-  }, [currentSheet, currentSheetKey]);
+    importWorksheets(selected, mode, addSourceColumn, worksheetSelection.isMerging);
+  }, [worksheetSelection, importWorksheets, finishImportBatch]);
+
+  const handleCancelWorksheetSelection = useCallback(() => {
+    worksheetSelection?.worksheets.forEach(worksheet => {
+      importBatchRef.current.push(skippedImportResult(worksheet, 'Importação cancelada na seleção de abas.'));
+    });
+    setWorksheetSelection(null);
+    finishImportBatch();
+  }, [worksheetSelection, finishImportBatch]);
 
   // Função para processar arquivo selecionado
-    const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
 
     const fileArray = Array.from(files) as File[];
-    const excelFiles = fileArray.filter(file => file.name.match(/\.(xls|xlsx|xlsm)$/i));
+    const supportedFiles = fileArray.filter(file => SUPPORTED_FILE_PATTERN.test(file.name));
     
-    if (excelFiles.length === 0) {
-      alert("Por favor, selecione um arquivo Excel válido (.xls, .xlsx ou .xlsm)");
+    if (supportedFiles.length === 0) {
+      alert(`Por favor, selecione um arquivo válido (${SUPPORTED_FILE_LABEL})`);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
       return;
     }
     
-    // Se há uma planilha atual e múltiplos arquivos, fazer merge
-    if (currentSheetKey && currentSheet && excelFiles.length > 0) {
-      setIsLoadingFile(true);
-      handleMultipleFiles(excelFiles, true);
-      return;
-    }
-
-    // Caso contrário, processar apenas o primeiro arquivo (modo single-file legacy)
-    const file = excelFiles[0];
     setIsLoadingFile(true);
-    setCurrentFileName(file.name);
-    
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        if (!data) {
-          throw new Error("Não foi possível ler o arquivo.");
-        }
-        const workbook = XLSX.read(data, { type: 'binary' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        
-        const allData: any[][] = XLSX.utils.sheet_to_json(worksheet, {
-          header: 1,
-          defval: null,
-        });
-        
-        if (allData.length < 2) {
-            throw new Error("A planilha está vazia ou não contém dados suficientes.");
-        }
-
-        let headerRowIndex = -1;
-        let potentialHeaders: any[] = [];
-        
-        if (allData.length > 1 && allData[1]) {
-          const row1 = allData[1];
-          const validCells = row1.filter(cell => 
-            cell !== null && cell !== undefined && String(cell).trim() !== ''
-          );
-          
-          if (validCells.length >= 3 && validCells.every(cell => typeof cell === 'string')) {
-            headerRowIndex = 1;
-            potentialHeaders = row1;
-          }
-        }
-        
-        if (headerRowIndex === -1 && allData.length > 2 && allData[2]) {
-          const row2 = allData[2];
-          const validCells = row2.filter(cell => 
-            cell !== null && cell !== undefined && String(cell).trim() !== ''
-          );
-          
-          if (validCells.length >= 3 && validCells.every(cell => typeof cell === 'string')) {
-            headerRowIndex = 2;
-            potentialHeaders = row2;
-          }
-        }
-        
-        if (headerRowIndex === -1) {
-          for (let i = 0; i < Math.min(5, allData.length); i++) {
-            const row = allData[i];
-            const validCells = row.filter(cell => 
-              cell !== null && cell !== undefined && String(cell).trim() !== ''
-            );
-            if (validCells.length >= 2) {
-              headerRowIndex = i;
-              potentialHeaders = row;
-              break;
-            }
-          }
-        }
-        
-        if (headerRowIndex === -1) {
-          throw new Error("Não foi possível detectar o cabeçalho da planilha.");
-        }
-
-        let lastValidIndex = potentialHeaders.length;
-        
-        for (let i = 0; i < potentialHeaders.length; i++) {
-          const header = potentialHeaders[i];
-          if (header === null || header === undefined || String(header).trim() === '') {
-            lastValidIndex = i;
-            break;
-          }
-        }
-        
-        const headers: string[] = potentialHeaders.slice(0, lastValidIndex).map(String);
-        
-        if (headers.length === 0) {
-          throw new Error("Nenhuma coluna válida encontrada.");
-        }
-        
-        const dataRows = allData.slice(headerRowIndex + 1);
-        
-        const rows: Row[] = dataRows.map(rowData => {
-          const rowObject: Row = {};
-          headers.forEach((header, index) => {
-            rowObject[header] = rowData[index];
-          });
-          return rowObject;
-        }).filter(row => {
-          return Object.values(row).some(val => val !== null && val !== undefined);
-        });
-
-        setPreviewData({ headers, rows });
-        setShowDataPreview(true);
-        setIsLoadingFile(false);
-        
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
-      } catch (error) {
-        console.error(error);
-        alert(error instanceof Error ? error.message : "Ocorreu um erro ao processar o arquivo. Verifique se o formato está correto.");
-        setIsLoadingFile(false);
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
-      }
-    };
 
-    reader.onerror = () => {
-      setIsLoadingFile(false);
-      alert("Erro ao ler o arquivo.");
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-    };
+    // Se há uma planilha atual, fazer merge de todos os arquivos
+    if (currentSheetKey && currentSheet) {
+      handleMultipleFiles(supportedFiles, true);
+      return;
+    }
 
-    reader.readAsBinaryString(file);
+    // Caso contrário, pré-visualizar apenas o primeiro arquivo
+    handleMultipleFiles(supportedFiles.slice(0, 1), false);
   }, [currentSheetKey, currentSheet, handleMultipleFiles]);
 
   // Handlers para drag & drop
@@ -526,11 +664,11 @@ const App: React.FC = () => {
     const files = Array.from(e.dataTransfer.files) as File[];
     if (files.length === 0) return;
 
-    // Filtrar apenas arquivos Excel válidos
-    const excelFiles = files.filter(file => file.name.match(/\.(xls|xlsx|xlsm)$/i));
+    // Filtrar apenas arquivos em formatos suportados
+    const supportedFiles = files.filter(file => SUPPORTED_FILE_PATTERN.test(file.name));
     
-    if (excelFiles.length === 0) {
-      alert('Por favor, selecione arquivo(s) Excel válido(s) (.xls, .xlsx, .xlsm)');
+    if (supportedFiles.length === 0) {
+      alert(`Por favor, selecione arquivo(s) válido(s) (${SUPPORTED_FILE_LABEL})`);
       return;
     }
 
@@ -539,10 +677,10 @@ const App: React.FC = () => {
     // Se está atualizando planilha atual, processar mesclagem
     if (currentSheetKey && currentSheet) {
       // Processar múltiplos arquivos para mesclagem
-      handleMultipleFiles(excelFiles, true);
+      handleMultipleFiles(supportedFiles, true);
     } else {
       // Nova planilha - processar apenas o primeiro arquivo
-      const file = excelFiles[0];
+      const file = supportedFiles[0];
       const event = {
         target: { files: [file] }
       } as any;
@@ -550,52 +688,89 @@ const App: React.FC = () => {
     }
   }, [currentSheetKey, currentSheet, handleFileChange, handleMultipleFiles]);
 
-  const handleConfirmPreview = useCallback((modifiedData: SheetData, sheetIdentifier?: string) => {
+  // Avançar a fila de pré-visualização; ao terminar, abrir a última planilha criada
+  const advancePreviewQueue = useCallback((importedKey?: string) => {
+    if (importedKey) {
+      lastImportedKeyRef.current = importedKey;
+    }
+
+    if (previewQueue.length > 1) {
+      setPreviewQueue(prev => prev.slice(1));
+      return;
+    }
+
+    setPreviewQueue([]);
+    finishImportBatch();
+    const lastKey = lastImportedKeyRef.current;
+    lastImportedKeyRef.current = null;
+
+    if (lastKey) {
+      setCurrentSheetKey(lastKey);
+      setShowMainMenu(false);
+      setFilters({});
+      setDebouncedFilters({});
+      setDateFilters({});
+      setSortConfig(null);
+    } else {
+      setShowMainMenu(!currentSheetKey);
+    }
+  }, [previewQueue.length, currentSheetKey, finishImportBatch]);
+
+  const handleConfirmPreview = useCallback((
+    modifiedData: SheetData,
+    importResult: ImportFileResult,
+    newSheetInfo?: Pick<SheetMetadata, 'key' | 'type' | 'period'>,
+    hiddenColumns: string[] = [],
+    columnRenames: Record<string, string> = {}
+  ) => {
     // Se tem identificador, é uma nova planilha
-    if (sheetIdentifier) {
-      const key = sheetIdentifier;
-      const now = new Date().toISOString();
+    if (newSheetInfo) {
+      const { key, type, period } = newSheetInfo;
+      const importedAt = Date.now();
+      const now = new Date(importedAt).toISOString();
 
       const newSheet: StoredSheet = {
         metadata: {
           key,
-          name: sheetIdentifier,
+          // Identificador gerado pelo tipo e período: nome mais legível
+          name: type && period && key === buildSheetKey(type, period) ? buildSheetName(type, period) : key,
           createdAt: now,
           updatedAt: now,
+          type,
+          period,
         },
-        data: modifiedData,
-        visibleColumns: modifiedData.headers,
+        data: { ...modifiedData, rowImportedAt: modifiedData.rows.map(() => importedAt) },
+        visibleColumns: modifiedData.headers.filter(header => !hiddenColumns.includes(header)),
+        importHistory: appendImportHistory(null, 'create', [importResult], modifiedData.rows.length, 0),
       };
 
       saveSheet(newSheet);
       setAllSheets(prev => ({ ...prev, [key]: newSheet }));
-      setCurrentSheetKey(key);
-      setShowMainMenu(false);
-      setShowDataPreview(false);
-      setPreviewData(null);
-      setCurrentFileName('');
-      setFilters({});
-      setDebouncedFilters({});
-      setSortConfig(null);
+      importBatchRef.current.push(importResult);
+      advancePreviewQueue(key);
     } else {
       // É atualização, apenas salva os dados modificados
+      pendingImportResultRef.current = importResult;
+      pendingColumnRenamesRef.current = columnRenames;
       setPendingFileData(modifiedData);
-      setShowDataPreview(false);
-      setPreviewData(null);
-      setCurrentFileName('');
+      advancePreviewQueue();
     }
+  }, [advancePreviewQueue]);
+
+  const handleSaveImportProfile = useCallback((profile: ImportProfile) => {
+    setImportProfiles(saveImportProfile(profile));
+  }, []);
+
+  const handleDeleteImportProfile = useCallback((profileId: string) => {
+    setImportProfiles(deleteImportProfile(profileId));
   }, []);
 
   const handleCancelPreview = useCallback(() => {
-    setShowDataPreview(false);
-    setPreviewData(null);
-    setCurrentFileName('');
-    if (currentSheetKey) {
-      setShowMainMenu(false);
-    } else {
-      setShowMainMenu(true);
+    if (previewQueue.length > 0) {
+      importBatchRef.current.push(skippedImportResult(previewQueue[0], 'Importação cancelada na pré-visualização.'));
     }
-  }, [currentSheetKey]);
+    advancePreviewQueue();
+  }, [previewQueue, advancePreviewQueue]);
 
   // Efeito para processar arquivo carregado
   useEffect(() => {
@@ -612,61 +787,34 @@ const App: React.FC = () => {
         return;
       }
 
-      // Verificar headers
-      const existingHeaders = existingSheet.data.headers;
-      const newHeaders = pendingFileData.headers;
-
-      if (existingHeaders.length !== newHeaders.length || 
-          !existingHeaders.every((h, i) => h === newHeaders[i])) {
-        alert(`Erro: Os cabeçalhos não correspondem!\n\nExistente: ${existingHeaders.join(', ')}\nNovo: ${newHeaders.join(', ')}`);
-        setPendingFileData(null);
-        setIsUpdatingCurrentSheet(false);
-        return;
-      }
-
-      // Merge logic - usando hash da linha toda ao invés de apenas primeira coluna
-      const createRowHash = (row: Row, headers: string[]): string => {
-        // Criar hash simples baseado em todos os valores da linha
-        const values = headers.map(h => {
-          const val = row[h];
-          return val === null || val === undefined ? '' : String(val);
-        });
-        return values.join('|');
-      };
-
-      const updatedIds: string[] = [];
-      const newIds: string[] = [];
-      const existingRowsMap = new Map(
-        existingSheet.data.rows.map(row => [createRowHash(row, existingHeaders), row])
-      );
-
-      pendingFileData.rows.forEach(newRow => {
-        const newRowHash = createRowHash(newRow, existingHeaders);
-        
-        if (existingRowsMap.has(newRowHash)) {
-          updatedIds.push(newRowHash.substring(0, 50)); // Mostrar parte do hash no relatório
-        } else {
-          newIds.push(newRowHash.substring(0, 50));
-        }
-        existingRowsMap.set(newRowHash, newRow);
+      // Colunas novas ou renomeadas na pré-visualização passam a fazer parte da
+      // planilha; as ausentes no arquivo já vêm preenchidas com o valor escolhido
+      const evolution = planSchemaEvolution(existingSheet.data.headers, pendingFileData, pendingColumnRenamesRef.current);
+      pendingColumnRenamesRef.current = {};
+      const evolvedSheet = evolution ? evolveSheet(existingSheet, evolution) : existingSheet;
+      const existingHeaders = evolvedSheet.data.headers;
+
+      const incomingRows = evolvedSheet.data.columnTypes
+        ? applyColumnTypes(pendingFileData, evolvedSheet.data.columnTypes).rows
+        : pendingFileData.rows;
+
+      // Nada é gravado antes da confirmação na pré-visualização
+      const pendingResult = pendingImportResultRef.current;
+      pendingImportResultRef.current = null;
+      setPendingMerge({
+        sheetKey: currentSheetKey,
+        baseRows: existingSheet.data.rows,
+        evolution,
+        existingRows: evolvedSheet.data.rows,
+        incomingRows,
+        headers: existingHeaders,
+        keyColumns: resolveKeyColumns(evolvedSheet.keyColumns, existingHeaders),
+        importResults: pendingResult ? [pendingResult] : [],
+        sourceFiles: [pendingResult?.fileName ?? CLIPBOARD_SOURCE_NAME],
       });
-
-      const mergedRows = Array.from(existingRowsMap.values());
-      const updatedSheet: StoredSheet = {
-        ...existingSheet,
-        data: { headers: existingHeaders, rows: mergedRows },
-        metadata: { ...existingSheet.metadata, updatedAt: new Date().toISOString() },
-      };
-
-      saveSheet(updatedSheet);
-      setAllSheets(prev => ({ ...prev, [currentSheetKey]: updatedSheet }));
       setPendingFileData(null);
       setIsUpdatingCurrentSheet(false);
       isUpdatingRef.current = false;
-      setFilters({});
-      setDebouncedFilters({});
-      setSortConfig(null);
-      setMergeReport({ updated: updatedIds, new: newIds });
       return;
     }
     
@@ -674,6 +822,54 @@ const App: React.FC = () => {
     // (este código só executa quando vem do preview modal para atualizar existente)
   }, [pendingFileData, isUpdatingCurrentSheet, currentSheetKey, allSheets]);
 
+  // Gravar as entradas aceitas na pré-visualização da mesclagem
+  const handleConfirmMerge = useCallback((plan: MergePlan, rejectedEntries: Set<number>) => {
+    if (!pendingMerge) return;
+    const { sheetKey, baseRows, evolution, importResults, sourceFiles } = pendingMerge;
+    setPendingMerge(null);
+
+    const sheet = allSheets[sheetKey];
+    if (!sheet || sheet.data.rows !== baseRows) {
+      alert('A planilha foi alterada enquanto a mesclagem era revisada. Carregue os dados novamente.');
+      finishImportBatch();
+      return;
+    }
+
+    // O plano foi feito sobre as linhas já com as colunas novas
+    const evolvedSheet = evolution ? evolveSheet(sheet, evolution) : sheet;
+    const { rows, rowImportedAt, added, updated, removed } = applyMergePlan(
+      evolvedSheet.data.rows,
+      plan,
+      index => !rejectedEntries.has(index),
+      { existing: evolvedSheet.data.rowImportedAt, importedAt: Date.now() }
+    );
+    const updatedSheet: StoredSheet = {
+      ...evolvedSheet,
+      data: { ...evolvedSheet.data, rows, rowImportedAt },
+      metadata: { ...sheet.metadata, updatedAt: new Date().toISOString() },
+      mergeStrategy: plan.strategy,
+      importHistory: importResults.length > 0
+        ? appendImportHistory(sheet, 'update', importResults, added, updated, removed)
+        : sheet.importHistory,
+    };
+
+    snapshotSheet(sheet, 'merge', sourceFiles);
+    applySheetChange(`Dados mesclados em "${sheet.metadata.name}"`, sheetKey, updatedSheet);
+    setFilters({});
+    setDebouncedFilters({});
+    setDateFilters({});
+    setSortConfig(null);
+    finishImportBatch();
+  }, [pendingMerge, allSheets, applySheetChange, finishImportBatch]);
+
+  const handleCancelMerge = useCallback(() => {
+    setPendingMerge(null);
+    importBatchRef.current = importBatchRef.current.map(result =>
+      result.status === 'failed' ? result : { ...result, status: 'skipped', message: 'Mesclagem cancelada na pré-visualização.' }
+    );
+    finishImportBatch();
+  }, [finishImportBatch]);
+
   const handleFileUploadError = useCallback((message: string) => {
     alert(message);
   }, []);
@@ -690,6 +886,18 @@ const App: React.FC = () => {
     }, 300);
   }, []);
 
+  const handleDateFilterChange = useCallback((key: string, filter: DateFilter | null) => {
+    setDateFilters(prev => {
+      const next = { ...prev };
+      if (filter) {
+        next[key] = filter;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  }, []);
+
   const handleSort = useCallback((key: string) => {
     setSortConfig(prevConfig => {
         const isAsc = prevConfig?.key === key && prevConfig.direction === 'ascending';
@@ -719,28 +927,282 @@ const App: React.FC = () => {
     fileInputRef.current?.click();
   }, []);
   
+  const handlePastedWorksheet = useCallback((sheet: ParsedWorksheet) => {
+    setShowPasteModal(false);
+    setPreviewQueue([{ fileName: CLIPBOARD_SOURCE_NAME, sheet }]);
+  }, []);
+
+  // Colar dados da área de transferência como nova planilha ou atualização da atual
+  const handlePasteData = useCallback(async (isUpdating: boolean) => {
+    isUpdatingRef.current = isUpdating;
+    setIsUpdatingCurrentSheet(isUpdating);
+    setPendingFileData(null);
+    importBatchRef.current = [];
+
+    let sheet: ParsedWorksheet;
+    try {
+      sheet = await readClipboardWorksheet();
+    } catch (error) {
+      if (error instanceof ParseError) {
+        alert(error.message);
+      } else {
+        // Sem permissão de leitura: oferecer o campo para colar manualmente
+        setShowPasteModal(true);
+      }
+      return;
+    }
+    handlePastedWorksheet(sheet);
+  }, [handlePastedWorksheet]);
+
   const handleSelectSheetFromMenu = useCallback((sheetKey: string) => {
     setCurrentSheetKey(sheetKey);
     setShowMainMenu(false);
     setFilters({});
     setDebouncedFilters({});
+    setDateFilters({});
     setSortConfig(null);
   }, []);
 
+  // Excluir leva a planilha para a lixeira; ela some das listas até ser restaurada
+  const moveSheetToTrash = useCallback((sheetKey: string) => {
+    const sheet = allSheets[sheetKey];
+    if (!sheet) return;
+
+    const trashedSheet: StoredSheet = {
+      ...sheet,
+      metadata: { ...sheet.metadata, deletedAt: new Date().toISOString() },
+    };
+    applySheetChange(`Planilha "${sheet.metadata.name}" movida para a lixeira`, sheetKey, trashedSheet);
+    if (sheetKey === currentSheetKey) {
+      setCurrentSheetKey(null);
+      setShowMainMenu(true);
+    }
+  }, [allSheets, currentSheetKey, applySheetChange]);
+
   const handleClearCurrentSheet = useCallback(() => {
     if (!currentSheetKey) return;
     
-    if (confirm(`Tem certeza que deseja limpar a planilha "${allSheets[currentSheetKey]?.metadata.name}"?`)) {
-      deleteSheet(currentSheetKey);
-      setAllSheets(prev => {
-        const newSheets = { ...prev };
-        delete newSheets[currentSheetKey];
-        return newSheets;
-      });
-      setCurrentSheetKey(null);
-      setShowMainMenu(true);
+    const sheetName = allSheets[currentSheetKey]?.metadata.name;
+    if (confirm(`Mover a planilha "${sheetName}" para a lixeira?`)) {
+      moveSheetToTrash(currentSheetKey);
+    }
+  }, [currentSheetKey, allSheets, moveSheetToTrash]);
+
+  const handleRestoreFromTrash = useCallback((sheetKey: string) => {
+    const sheet = allSheets[sheetKey];
+    if (!sheet) return;
+
+    const { deletedAt, ...metadata } = sheet.metadata;
+    applySheetChange(`Planilha "${sheet.metadata.name}" restaurada da lixeira`, sheetKey, { ...sheet, metadata }, false);
+  }, [allSheets, applySheetChange]);
+
+  // Exclusão definitiva: sem "Desfazer", e as ações anteriores da planilha
+  // deixam de poder ser desfeitas, pois a trariam de volta
+  const purgeSheets = useCallback((sheetKeys: string[]) => {
+    sheetKeys.forEach(sheetKey => writeSheetState(sheetKey, null));
+    setUndoStack(prev => prev.filter(entry => !sheetKeys.includes(entry.sheetKey)));
+    setRedoStack(prev => prev.filter(entry => !sheetKeys.includes(entry.sheetKey)));
+  }, [writeSheetState]);
+
+  const handleDeleteFromTrash = useCallback((sheetKey: string) => {
+    const sheet = allSheets[sheetKey];
+    if (!sheet || !confirm(`Excluir definitivamente a planilha "${sheet.metadata.name}"? Esta ação não pode ser desfeita.`)) return;
+    purgeSheets([sheetKey]);
+  }, [allSheets, purgeSheets]);
+
+  const handleEmptyTrash = useCallback(() => {
+    const trashedKeys = Object.values(allSheets)
+      .filter((sheet: StoredSheet) => isInTrash(sheet.metadata))
+      .map((sheet: StoredSheet) => sheet.metadata.key);
+    if (trashedKeys.length === 0) return;
+    if (!confirm(`Excluir definitivamente ${trashedKeys.length} planilha(s) da lixeira? Esta ação não pode ser desfeita.`)) return;
+    purgeSheets(trashedKeys);
+  }, [allSheets, purgeSheets]);
+
+  const handleTrashRetentionChange = useCallback((days: number) => {
+    if (!Number.isInteger(days) || days < 1) return;
+
+    // Com o prazo menor, as planilhas já vencidas saem da lixeira agora
+    const expiredKeys = findExpiredTrash(Object.values(allSheets).map((sheet: StoredSheet) => sheet.metadata), days);
+    if (expiredKeys.length > 0) {
+      if (!confirm(`${expiredKeys.length} planilha(s) estão na lixeira há mais de ${days} dia(s) e serão excluídas definitivamente. Continuar?`)) return;
+      purgeSheets(expiredKeys);
+    }
+    saveTrashRetentionDays(days);
+    setTrashRetentionDays(days);
+  }, [allSheets, purgeSheets]);
+
+  const handleOpenStorage = useCallback(() => {
+    setStorageWarning(null);
+    setShowStorage(true);
+  }, []);
+
+  const handleDeleteSheetFromStorage = useCallback((sheetKey: string) => {
+    const sheet = allSheets[sheetKey];
+    if (!sheet) return;
+
+    // Na lixeira, a exclusão pela tela de armazenamento é definitiva
+    if (isInTrash(sheet.metadata)) {
+      handleDeleteFromTrash(sheetKey);
+      return;
+    }
+    if (!confirm(`Mover a planilha "${sheet.metadata.name}" para a lixeira?`)) return;
+    moveSheetToTrash(sheetKey);
+  }, [allSheets, moveSheetToTrash, handleDeleteFromTrash]);
+
+  const handleDownloadQuarantined = useCallback((entry: QuarantinedSheet) => {
+    downloadBlob(new Blob([JSON.stringify(entry, null, 2)], { type: 'application/json' }), `quarentena-${entry.key}.json`);
+  }, []);
+
+  const handleDeleteQuarantined = useCallback((sheetKey: string) => {
+    if (!confirm(`Excluir definitivamente o registro "${sheetKey}" da quarentena?`)) return;
+    sheetStorage.deleteQuarantined(sheetKey).catch(error => {
+      console.error('Error deleting quarantined sheet:', error);
+    });
+    setQuarantinedSheets(prev => prev.filter(entry => entry.key !== sheetKey));
+  }, []);
+
+  const handleToggleArchive = useCallback((sheetKey: string) => {
+    const sheet = allSheets[sheetKey];
+    if (!sheet) return;
+
+    const updatedSheet: StoredSheet = {
+      ...sheet,
+      metadata: { ...sheet.metadata, archived: !sheet.metadata.archived },
+    };
+    applySheetChange(
+      `Planilha "${sheet.metadata.name}" ${updatedSheet.metadata.archived ? 'arquivada' : 'restaurada'}`,
+      sheetKey,
+      updatedSheet
+    );
+  }, [allSheets, applySheetChange]);
+
+  const handleCompactSheet = useCallback((sheetKey: string) => {
+    const sheet = allSheets[sheetKey];
+    if (!sheet) return;
+
+    const { sheet: compacted, removedColumns, removedRows } = compactSheet(sheet);
+    const summary = [
+      removedColumns.length > 0 ? `Colunas vazias removidas: ${removedColumns.join(', ')}` : 'Nenhuma coluna vazia.',
+      `Linhas vazias removidas: ${removedRows}`,
+    ].join('\n');
+
+    if (!confirm(`Compactar "${sheet.metadata.name}"?\n\nEspaços extras nos textos serão removidos.\n${summary}`)) return;
+
+    const updatedSheet: StoredSheet = {
+      ...compacted,
+      metadata: { ...compacted.metadata, updatedAt: new Date().toISOString() },
+    };
+    applySheetChange(`Planilha "${sheet.metadata.name}" compactada`, sheetKey, updatedSheet);
+  }, [allSheets, applySheetChange]);
+
+  // Substituir os dados pela versão escolhida, guardando antes a situação atual
+  const handleRestoreSnapshot = useCallback((snapshot: StoredSheet) => {
+    if (!currentSheetKey || !currentSheet) return;
+    if (!confirm(`Restaurar "${currentSheet.metadata.name}" para esta versão? A situação atual será guardada como uma nova cópia.`)) return;
+
+    const updatedSheet: StoredSheet = {
+      ...snapshot,
+      metadata: { ...currentSheet.metadata, updatedAt: new Date().toISOString() },
+      keyColumns: currentSheet.keyColumns,
+      importHistory: currentSheet.importHistory,
+    };
+    snapshotSheet(currentSheet, 'restore');
+    applySheetChange(`"${currentSheet.metadata.name}" restaurada para uma versão anterior`, currentSheetKey, updatedSheet);
+    setFilters({});
+    setDebouncedFilters({});
+    setDateFilters({});
+    setSortConfig(null);
+    setShowSnapshots(false);
+  }, [currentSheetKey, currentSheet, applySheetChange]);
+
+  const handleForkSnapshot = useCallback((snapshot: StoredSheet, name: string) => {
+    const now = new Date().toISOString();
+    const newSheet: StoredSheet = {
+      ...snapshot,
+      metadata: { key: name, name, createdAt: now, updatedAt: now },
+      importHistory: [],
+    };
+    saveSheet(newSheet);
+    setAllSheets(prev => ({ ...prev, [name]: newSheet }));
+    setShowSnapshots(false);
+    handleSelectSheetFromMenu(name);
+  }, [handleSelectSheetFromMenu]);
+
+  const handleCreateBackup = useCallback(async ({ compress, includeSnapshots }: BackupOptions) => {
+    try {
+      const backup = await buildWorkspaceBackup(sheetStorage, Object.values(allSheets), includeSnapshots);
+      await downloadWorkspaceBackup(backup, compress);
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      alert('Erro ao gerar o backup.');
     }
-  }, [currentSheetKey, allSheets]);
+  }, [allSheets]);
+
+  // Cada planilha restaurada entra no histórico de desfazer
+  const handleRestoreBackup = useCallback((backup: WorkspaceBackup, resolutions: Record<string, BackupCollisionMode>) => {
+    const { sheets, snapshots } = planBackupRestore(backup, allSheets, resolutions);
+
+    sheets.forEach(sheet => {
+      applySheetChange(`Planilha "${sheet.metadata.name}" restaurada do backup`, sheet.metadata.key, sheet, false);
+    });
+    snapshots.forEach(({ info, sheet }) => {
+      sheetStorage.saveSnapshot(info, sheet).catch(error => {
+        console.error('Error restoring snapshot:', error);
+      });
+    });
+    backup.importProfiles.forEach(profile => setImportProfiles(saveImportProfile(profile)));
+
+    setShowBackup(false);
+    alert(`${sheets.length} planilha(s) restaurada(s) do backup.`);
+  }, [allSheets, applySheetChange]);
+
+  const handleSaveSheetInfo = useCallback((metadata: SheetMetadata) => {
+    if (!currentSheetKey || !currentSheet) return;
+
+    const updatedSheet: StoredSheet = {
+      ...currentSheet,
+      metadata: { ...metadata, updatedAt: new Date().toISOString() },
+    };
+    applySheetChange(`Informações de "${currentSheet.metadata.name}" alteradas`, currentSheetKey, updatedSheet, false);
+    setShowSheetInfo(false);
+  }, [currentSheetKey, currentSheet, applySheetChange]);
+
+  const handleSaveKeyColumns = useCallback((keyColumns: string[]) => {
+    if (!currentSheetKey || !currentSheet) return;
+
+    const updatedSheet: StoredSheet = { ...currentSheet, keyColumns: keyColumns.length > 0 ? keyColumns : undefined };
+    applySheetChange(`Colunas-chave de "${currentSheet.metadata.name}" alteradas`, currentSheetKey, updatedSheet, false);
+    setShowKeyColumns(false);
+  }, [currentSheetKey, currentSheet, applySheetChange]);
+
+  // Remove as linhas repetidas, guardando antes uma cópia da planilha
+  const handleRemoveDuplicates = useCallback(({ columns, rule, groupCount, removedRows }: DeduplicationReport) => {
+    if (!currentSheetKey || !currentSheet) return;
+
+    const removed = new Set(removedRows);
+    const isKept = (_: unknown, index: number) => !removed.has(index);
+    const updatedSheet: StoredSheet = {
+      ...currentSheet,
+      data: {
+        ...currentSheet.data,
+        rows: currentSheet.data.rows.filter(isKept),
+        rowImportedAt: currentSheet.data.rowImportedAt?.filter(isKept),
+      },
+      metadata: { ...currentSheet.metadata, updatedAt: new Date().toISOString() },
+    };
+    snapshotSheet(currentSheet, 'dedup');
+    applySheetChange(`Duplicados removidos de "${currentSheet.metadata.name}"`, currentSheetKey, updatedSheet);
+    setShowDeduplicate(false);
+
+    const ruleLabel = SURVIVOR_RULES.find(option => option.value === rule)?.label;
+    alert([
+      `${removed.size} linha(s) removida(s) em ${groupCount} grupo(s) de duplicados.`,
+      `Colunas de identificação: ${columns.join(', ')}`,
+      `Linha mantida: ${ruleLabel}`,
+      `A planilha passou de ${currentSheet.data.rows.length} para ${updatedSheet.data.rows.length} linha(s). A versão anterior está em "Versões da Planilha".`,
+    ].join('\n'));
+  }, [currentSheetKey, currentSheet, applySheetChange]);
 
   const handleColumnVisibilityChange = useCallback((newVisibleColumns: string[]) => {
     if (!currentSheetKey || !currentSheet) return;
@@ -751,14 +1213,14 @@ const App: React.FC = () => {
       metadata: { ...currentSheet.metadata, updatedAt: new Date().toISOString() },
     };
 
-    saveSheet(updatedSheet);
-    setAllSheets(prev => ({ ...prev, [currentSheetKey]: updatedSheet }));
-  }, [currentSheetKey, currentSheet]);
+    applySheetChange('Colunas visíveis alteradas', currentSheetKey, updatedSheet, false);
+  }, [currentSheetKey, currentSheet, applySheetChange]);
 
   const handleSwitchSheet = useCallback((sheetKey: string) => {
     setCurrentSheetKey(sheetKey);
     setFilters({});
     setDebouncedFilters({});
+    setDateFilters({});
     setSortConfig(null);
   }, []);
 
@@ -767,27 +1229,33 @@ const App: React.FC = () => {
 
     let filteredRows = currentSheet.data.rows;
 
+    const columnTypes = currentSheet.data.columnTypes ?? {};
+    const decimalSeparators = currentSheet.data.decimalSeparators ?? {};
+
     const activeFilters = Object.entries(debouncedFilters).filter(([, value]) => value);
     if (activeFilters.length > 0) {
         filteredRows = filteredRows.filter(row => {
             return activeFilters.every(([key, value]) => {
-                const cellValue = row[key];
-                if (cellValue == null) return false;
-                
-                const cellValueStr = String(cellValue).toLowerCase();
-                
                 // Suporta múltiplos termos separados por ';'
                 const searchTerms = String(value).split(';').map(term => term.trim().toLowerCase()).filter(term => term);
                 
                 if (searchTerms.length === 0) return true;
                 
-                // Retorna true se pelo menos um termo for encontrado
-                return searchTerms.some(term => cellValueStr.includes(term));
+                // Retorna true se pelo menos um termo for atendido, conforme o tipo da coluna
+                return searchTerms.some(term => matchesTypedFilter(row[key], term, columnTypes[key], decimalSeparators[key]));
             });
         });
     }
 
+    const activeDateFilters = (Object.entries(dateFilters) as Array<[string, DateFilter]>).filter(([, filter]) => isDateFilterActive(filter));
+    if (activeDateFilters.length > 0) {
+      filteredRows = filteredRows.filter(row =>
+        activeDateFilters.every(([key, filter]) => matchesDateFilter(row[key], filter))
+      );
+    }
+
     if (sortConfig !== null) {
+      const sortType = columnTypes[sortConfig.key];
       const sorted = [...filteredRows];
       sorted.sort((a, b) => {
         const aValue = a[sortConfig.key];
@@ -796,22 +1264,14 @@ const App: React.FC = () => {
         if (aValue == null) return 1;
         if (bValue == null) return -1;
         
-        if (typeof aValue === 'number' && typeof bValue === 'number') {
-           return sortConfig.direction === 'ascending' ? aValue - bValue : bValue - aValue;
-        }
-
-        const valA = String(aValue).toLowerCase();
-        const valB = String(bValue).toLowerCase();
-
-        if (valA < valB) return sortConfig.direction === 'ascending' ? -1 : 1;
-        if (valA > valB) return sortConfig.direction === 'ascending' ? 1 : -1;
-        return 0;
+        const result = compareTypedValues(aValue, bValue, sortType, decimalSeparators[sortConfig.key]);
+        return sortConfig.direction === 'ascending' ? result : -result;
       });
       return sorted;
     }
 
     return filteredRows;
-  }, [currentSheet, debouncedFilters, sortConfig]);
+  }, [currentSheet, debouncedFilters, dateFilters, sortConfig]);
   
   if (!isInitialized) {
     return (
@@ -822,6 +1282,11 @@ const App: React.FC = () => {
   }
 
   const existingSheetsList: SheetMetadata[] = Object.values(allSheets).map((s: StoredSheet) => s.metadata);
+  // Planilhas arquivadas só aparecem na tela de armazenamento; as excluídas, na lixeira
+  const activeSheetsList = existingSheetsList.filter(sheet => !sheet.archived && !isInTrash(sheet));
+  const trashedSheetsList = existingSheetsList
+    .filter(isInTrash)
+    .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
 
   return (
     <div
@@ -839,27 +1304,150 @@ const App: React.FC = () => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
             </svg>
             <p className="text-white text-2xl font-bold">Solte o arquivo aqui</p>
-            <p className="text-indigo-200 mt-2">Arquivos suportados: .xls, .xlsx, .xlsm</p>
+            <p className="text-indigo-200 mt-2">Arquivos suportados: {SUPPORTED_FILE_LABEL}</p>
           </div>
         </div>
       )}
 
-      {mergeReport && (
-        <MergeReportModal 
-            report={mergeReport} 
-            onClose={() => setMergeReport(null)} 
+      {pendingMerge && allSheets[pendingMerge.sheetKey] && (
+        <MergePreviewModal
+          sheetName={allSheets[pendingMerge.sheetKey].metadata.name}
+          existingRows={pendingMerge.existingRows}
+          schemaChange={pendingMerge.evolution ? describeSchemaEvolution(pendingMerge.evolution) : undefined}
+          incomingRows={pendingMerge.incomingRows}
+          headers={pendingMerge.headers}
+          keyColumns={pendingMerge.keyColumns}
+          initialStrategy={allSheets[pendingMerge.sheetKey].mergeStrategy}
+          onConfirm={handleConfirmMerge}
+          onCancel={handleCancelMerge}
         />
       )}
       
-      {showDataPreview && previewData && (
+      {worksheetSelection && (
+        <WorksheetSelectionModal
+          worksheets={worksheetSelection.worksheets}
+          allowSeparate={!worksheetSelection.isMerging}
+          onConfirm={handleConfirmWorksheetSelection}
+          onCancel={handleCancelWorksheetSelection}
+        />
+      )}
+
+      {previewQueue.length > 0 && (
         <DataPreviewModal
-          data={previewData}
+          key={`${previewQueue[0].fileName}-${previewQueue[0].sheet.name}-${previewQueue.length}`}
+          source={previewQueue[0].sheet}
           onConfirm={handleConfirmPreview}
           onCancel={handleCancelPreview}
           existingHeaders={currentSheet?.data.headers}
+          existingColumnTypes={currentSheet?.data.columnTypes}
           isNewSheet={!currentSheetKey && !isUpdatingCurrentSheet}
-          existingIdentifiers={existingSheetsList.map(s => s.key)}
-          fileName={currentFileName}
+          existingSheets={existingSheetsList}
+          fileName={previewQueue[0].fileName}
+          profiles={importProfiles}
+          onSaveProfile={handleSaveImportProfile}
+          onDeleteProfile={handleDeleteImportProfile}
+        />
+      )}
+      
+      {showPasteModal && (
+        <PasteDataModal
+          onPasted={handlePastedWorksheet}
+          onCancel={() => setShowPasteModal(false)}
+        />
+      )}
+
+      {(isLoadingFile || importResults.length > 0) && (
+        <ImportProgressModal
+          isRunning={isLoadingFile}
+          progress={importProgress}
+          results={importResults}
+          onCancel={handleCancelImport}
+          onClose={() => setImportResults([])}
+        />
+      )}
+
+      {showStorage && (
+        <StorageModal
+          sheets={Object.values(allSheets)}
+          backendKind={sheetStorage.kind}
+          warning={storageWarning}
+          quarantined={quarantinedSheets}
+          onDelete={handleDeleteSheetFromStorage}
+          onToggleArchive={handleToggleArchive}
+          onCompact={handleCompactSheet}
+          onDownloadQuarantined={handleDownloadQuarantined}
+          onDeleteQuarantined={handleDeleteQuarantined}
+          onClose={() => setShowStorage(false)}
+        />
+      )}
+
+      {syncNotice && (
+        <SyncNotice message={syncNotice} onDismiss={() => setSyncNotice(null)} />
+      )}
+
+      {undoToast && (
+        <UndoToast
+          message={undoToast}
+          onUndo={handleUndo}
+          onDismiss={handleDismissUndoToast}
+        />
+      )}
+
+      {showBackup && (
+        <BackupModal
+          existingSheets={allSheets}
+          onCreateBackup={handleCreateBackup}
+          onRestore={handleRestoreBackup}
+          onClose={() => setShowBackup(false)}
+        />
+      )}
+
+      {showSheetInfo && currentSheet && (
+        <SheetInfoModal
+          metadata={currentSheet.metadata}
+          onSave={handleSaveSheetInfo}
+          onCancel={() => setShowSheetInfo(false)}
+        />
+      )}
+
+      {showKeyColumns && currentSheet && (
+        <KeyColumnsModal
+          headers={currentSheet.data.headers}
+          rows={currentSheet.data.rows}
+          keyColumns={resolveKeyColumns(currentSheet.keyColumns, currentSheet.data.headers)}
+          onSave={handleSaveKeyColumns}
+          onCancel={() => setShowKeyColumns(false)}
+        />
+      )}
+
+      {showDeduplicate && currentSheet && (
+        <DeduplicateModal
+          headers={currentSheet.data.headers}
+          rows={currentSheet.data.rows}
+          rowImportedAt={currentSheet.data.rowImportedAt}
+          columnTypes={currentSheet.data.columnTypes}
+          keyColumns={resolveKeyColumns(currentSheet.keyColumns, currentSheet.data.headers)}
+          onConfirm={handleRemoveDuplicates}
+          onCancel={() => setShowDeduplicate(false)}
+        />
+      )}
+
+      {showSnapshots && currentSheet && (
+        <SnapshotHistoryModal
+          sheet={currentSheet}
+          storage={sheetStorage}
+          existingIdentifiers={Object.keys(allSheets)}
+          onRestore={handleRestoreSnapshot}
+          onFork={handleForkSnapshot}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+
+      {showImportHistory && currentSheet && (
+        <ImportHistoryModal
+          sheetName={currentSheet.metadata.name}
+          entries={currentSheet.importHistory ?? []}
+          onClose={() => setShowImportHistory(false)}
         />
       )}
       
@@ -867,7 +1455,7 @@ const App: React.FC = () => {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".xls,.xlsx,.xlsm"
+        accept={SUPPORTED_FILE_ACCEPT}
         onChange={handleFileChange}
         className="hidden"
         disabled={isLoadingFile}
@@ -876,23 +1464,40 @@ const App: React.FC = () => {
       
       {showMainMenu ? (
         <MainMenu
-          availableSheets={existingSheetsList}
+          availableSheets={activeSheetsList}
           onSelectSheet={handleSelectSheetFromMenu}
           onLoadNewFile={handleLoadNewFile}
+          onPasteData={() => handlePasteData(false)}
+          onOpenStorage={handleOpenStorage}
+          onOpenBackup={() => setShowBackup(true)}
+          trashedSheets={trashedSheetsList}
+          trashRetentionDays={trashRetentionDays}
+          onRestoreFromTrash={handleRestoreFromTrash}
+          onDeleteFromTrash={handleDeleteFromTrash}
+          onEmptyTrash={handleEmptyTrash}
+          onTrashRetentionChange={handleTrashRetentionChange}
         />
       ) : currentSheet ? (
         <DataTable
           data={currentSheet.data}
           processedRows={processedRows}
           filters={filters}
+          dateFilters={dateFilters}
           sortConfig={sortConfig}
           visibleColumns={currentSheet.visibleColumns}
-          availableSheets={existingSheetsList}
+          availableSheets={activeSheetsList}
           currentSheetKey={currentSheetKey}
           onFilterChange={handleFilterChange}
+          onDateFilterChange={handleDateFilterChange}
           onSort={handleSort}
           onBackToMenu={handleBackToMainMenu}
           onUpdateData={handleUpdateCurrentSheet}
+          onPasteData={() => handlePasteData(true)}
+          onShowImportHistory={() => setShowImportHistory(true)}
+          onShowSnapshots={() => setShowSnapshots(true)}
+          onEditSheetInfo={() => setShowSheetInfo(true)}
+          onEditKeyColumns={() => setShowKeyColumns(true)}
+          onRemoveDuplicates={() => setShowDeduplicate(true)}
           onClearStorage={handleClearCurrentSheet}
           onColumnVisibilityChange={handleColumnVisibilityChange}
           onSwitchSheet={handleSelectSheetFromMenu}
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import type { StoredSheet } from '../types';
+import { BackupError, readBackupFile } from '../utils/backup';
+import type { BackupCollisionMode, BackupOptions, WorkspaceBackup } from '../utils/backup';
+import { supportsCompression } from '../utils/compression';
+
+interface BackupModalProps {
+  existingSheets: Record<string, StoredSheet>;
+  onCreateBackup: (options: BackupOptions) => Promise<void>;
+  onRestore: (backup: WorkspaceBackup, resolutions: Record<string, BackupCollisionMode>) => void;
+  onClose: () => void;
+}
+
+const COLLISION_LABELS: Record<BackupCollisionMode, string> = {
+  replace: 'Substituir a existente',
+  merge: 'Mesclar com a existente',
+  'keep-both': 'Manter as duas',
+};
+
+/**
+ * Backup de todas as planilhas em um único arquivo e restauração, com a
+ * escolha do que fazer com planilhas que já existem.
+ */
+export const BackupModal: React.FC<BackupModalProps> = ({ existingSheets, onCreateBackup, onRestore, onClose }) => {
+  const [options, setOptions] = useState<BackupOptions>({ compress: supportsCompression(), includeSnapshots: true });
+  const [isExporting, setIsExporting] = useState(false);
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, BackupCollisionMode>>({});
+
+  const handleCreateBackup = async () => {
+    setIsExporting(true);
+    try {
+      await onCreateBackup(options);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const loaded = await readBackupFile(file);
+      setBackup(loaded);
+      setResolutions(Object.fromEntries(
+        loaded.sheets
+          .filter(sheet => existingSheets[sheet.metadata.key])
+          .map(sheet => [sheet.metadata.key, 'keep-both' as BackupCollisionMode])
+      ));
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      alert(error instanceof BackupError ? error.message : 'Erro ao ler o arquivo de backup.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">Backup e Restauração</h2>
+          <p className="text-sm text-gray-500">Leve todas as planilhas para outro navegador ou computador</p>
+        </header>
+
+        <div className="p-6 flex-grow overflow-y-auto space-y-6">
+          <section className="space-y-3">
+            <h3 className="font-semibold text-gray-800">Fazer backup</h3>
+            <p className="text-sm text-gray-600">
+              Gera um arquivo com as {Object.keys(existingSheets).length} planilhas (dados, colunas visíveis e histórico de importações) e os perfis de importação.
+            </p>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.includeSnapshots}
+                onChange={e => setOptions(prev => ({ ...prev, includeSnapshots: e.target.checked }))}
+              />
+              <span>Incluir as versões guardadas de cada planilha</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.compress}
+                disabled={!supportsCompression()}
+                onChange={e => setOptions(prev => ({ ...prev, compress: e.target.checked }))}
+              />
+              <span>Compactar o arquivo (gzip)</span>
+            </label>
+            <button
+              onClick={handleCreateBackup}
+              disabled={isExporting}
+              className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              {isExporting ? 'Gerando...' : 'Baixar backup'}
+            </button>
+          </section>
+
+          <section className="space-y-3 border-t pt-6">
+            <h3 className="font-semibold text-gray-800">Restaurar backup</h3>
+            <input
+              type="file"
+              accept=".json,.gz,application/json,application/gzip"
+              onChange={handleFileChange}
+              className="text-sm"
+            />
+
+            {backup && (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  Backup de {new Date(backup.exportedAt).toLocaleString('pt-BR')}: {backup.sheets.length} planilha(s),{' '}
+                  {backup.snapshots.length} versão(ões) guardada(s) e {backup.importProfiles.length} perfil(is) de importação.
+                </p>
+                <div className="border rounded-md divide-y divide-gray-100">
+                  {backup.sheets.map(sheet => {
+                    const key = sheet.metadata.key;
+                    return (
+                      <div key={key} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <div>
+                          <div className="font-medium text-gray-800">{sheet.metadata.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {sheet.data.rows.length.toLocaleString('pt-BR')} linhas, {sheet.data.headers.length} colunas
+                          </div>
+                        </div>
+                        {existingSheets[key] ? (
+                          <select
+                            value={resolutions[key]}
+                            onChange={e => setResolutions(prev => ({ ...prev, [key]: e.target.value as BackupCollisionMode }))}
+                            className="px-2 py-1 border border-gray-300 rounded-md"
+                          >
+                            {(Object.keys(COLLISION_LABELS) as BackupCollisionMode[]).map(mode => (
+                              <option key={mode} value={mode}>{COLLISION_LABELS[mode]}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-xs text-green-700 bg-green-50 rounded px-2 py-1">Nova</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </section>
+        </div>
+
+        <footer className="p-4 bg-gray-50 border-t flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-gray-300 text-gray-700 font-semibold rounded-md hover:bg-gray-400 transition"
+          >
+            Fechar
+          </button>
+          {backup && (
+            <button
+              onClick={() => onRestore(backup, resolutions)}
+              className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition"
+            >
+              Restaurar
+            </button>
+          )}
+        </footer>
+      </div>
+    </div>
+  );
+};
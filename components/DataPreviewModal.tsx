@@ -1,34 +1,71 @@
 import React, { useState, useMemo } from 'react';
-import type { SheetData, Row } from '../types';
+import type { SheetData, ColumnType, ImportFileResult, CustomColumn, ImportProfile, SheetMetadata, SheetPeriod } from '../types';
+import { buildWorksheetData, getWorksheetGrid, resolveWorksheetHeaders, parseTextWorksheet, summarizeWorksheetImport } from '../utils/workbookParser';
+import type { ParsedWorksheet, SynthesizedHeaderReason } from '../utils/workbookParser';
+import { TEXT_ENCODINGS, DELIMITERS, DECIMAL_SEPARATORS } from '../utils/delimitedText';
+import type { TextImportOptions } from '../utils/delimitedText';
+import { COLUMN_TYPES, inferColumnTypes, applyColumnTypes, formatTypedValue } from '../utils/columnTypes';
+import { computeHeaderSignature, findMatchingProfile } from '../utils/importProfiles';
+import { buildSheetKey, formatSheetPeriod } from '../utils/sheetMetadata';
+import { diffHeaders, suggestColumnRenames } from '../utils/schemaEvolution';
+import { SheetSelectionModal } from './SheetSelectionModal';
 
 interface DataPreviewModalProps {
-  data: SheetData;
-  onConfirm: (modifiedData: SheetData, sheetIdentifier?: string) => void;
+  source: ParsedWorksheet; // Aba lida do arquivo: primeiras linhas, candidatos a cabeçalho e linhas montadas
+  onConfirm: (
+    modifiedData: SheetData,
+    importResult: ImportFileResult,
+    newSheet?: Pick<SheetMetadata, 'key' | 'type' | 'period'>, // Só para novas planilhas
+    hiddenColumns?: string[],
+    columnRenames?: Record<string, string> // Só em atualizações: coluna antiga → coluna do arquivo
+  ) => void;
   onCancel: () => void;
   existingHeaders?: string[]; // Headers da planilha existente (se estiver mesclando)
+  existingColumnTypes?: Record<string, ColumnType>; // Tipos da planilha existente (se estiver mesclando)
   isNewSheet?: boolean; // Se true, mostra campo de identificador
-  existingIdentifiers?: string[]; // Para validar duplicatas
+  existingSheets?: SheetMetadata[]; // Para validar duplicatas
   fileName?: string; // Nome do arquivo carregado
+  profiles?: ImportProfile[]; // Perfis de importação salvos
+  onSaveProfile?: (profile: ImportProfile) => void;
+  onDeleteProfile?: (profileId: string) => void;
 }
 
-interface CustomColumn {
-  name: string;
-  value: string;
-}
+const SYNTHESIZED_HEADER_LABELS: Record<SynthesizedHeaderReason, string> = {
+  blank: 'Nome gerado: coluna sem cabeçalho no arquivo',
+  duplicate: 'Nome ajustado: cabeçalho repetido no arquivo',
+  combined: 'Nome combinado de duas linhas de cabeçalho',
+};
+
+// Linhas brutas exibidas no seletor de cabeçalho
+const RAW_PREVIEW_ROWS = 12;
+const RAW_PREVIEW_COLUMNS = 8;
 
 export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
-  data,
+  source,
   onConfirm,
   onCancel,
   existingHeaders,
+  existingColumnTypes,
   isNewSheet = false,
-  existingIdentifiers = [],
+  existingSheets = [],
   fileName = '',
+  profiles = [],
+  onSaveProfile,
+  onDeleteProfile,
 }) => {
-  const [customColumns, setCustomColumns] = useState<CustomColumn[]>([]);
+  // Perfil reconhecido pelo cabeçalho do arquivo: suas escolhas já vêm aplicadas
+  const [initialMatch] = useState(() => findMatchingProfile(source, profiles));
+  const initialProfile = initialMatch?.profile;
+  const [appliedProfileId, setAppliedProfileId] = useState<string | null>(initialProfile?.id ?? null);
+  const [profileName, setProfileName] = useState(initialProfile?.name ?? '');
+
+  const [customColumns, setCustomColumns] = useState<CustomColumn[]>(initialProfile?.customColumns ?? []);
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>(initialProfile?.hiddenColumns ?? []);
   
   // Estado para valores de colunas faltantes (usado quando está mesclando)
   const [missingColumnValues, setMissingColumnValues] = useState<Record<string, string>>({});
+  // Coluna antiga → coluna do arquivo que a substitui ('' = nenhuma), escolhidas pelo usuário
+  const [renameChoices, setRenameChoices] = useState<Record<string, string>>({});
   
   // Estados para edição inline na tabela
   const [newColumnName, setNewColumnName] = useState('');
@@ -37,10 +74,97 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
   
   // Estado para identificador da planilha
   const [sheetIdentifier, setSheetIdentifier] = useState<string>('');
+  // Tipo e período escolhidos no SheetSelectionModal (opcionais)
+  const [classification, setClassification] = useState<{ type: string; period: SheetPeriod } | null>(null);
+  const [isClassifying, setIsClassifying] = useState(false);
+  const existingIdentifiers = existingSheets.map(sheet => sheet.key);
+
+  // Opções de leitura de CSV/TSV (codificação, delimitador, separador decimal)
+  const [textOptions, setTextOptions] = useState<TextImportOptions | undefined>(source.textImport?.options);
+
+  // Reler o arquivo texto quando alguma opção for alterada
+  const activeSource = useMemo<ParsedWorksheet | null>(() => {
+    if (!source.textImport || !textOptions || textOptions === source.textImport.options) {
+      return source;
+    }
+    return parseTextWorksheet(source.name, source.textImport.bytes, textOptions);
+  }, [source, textOptions]);
+
+  // Estrutura do arquivo: linha(s) de cabeçalho e linhas ignoradas após ela
+  const [headerRowIndex, setHeaderRowIndex] = useState<number>(
+    initialMatch?.headerRowIndex ?? source.headerCandidates[0]?.rowIndex ?? 0
+  );
+  const [headerRowCount, setHeaderRowCount] = useState<1 | 2>(initialProfile?.headerRowCount ?? 1);
+  const [skipRows, setSkipRows] = useState(initialProfile?.skipRows ?? 0);
+
+  // Reconstruir os dados sempre que a estrutura escolhida mudar
+  const { data, synthesizedHeaders, buildError } = useMemo<{
+    data: SheetData;
+    synthesizedHeaders: Record<string, SynthesizedHeaderReason>;
+    buildError: string | null;
+  }>(() => {
+    if (!activeSource) {
+      return {
+        data: { headers: [], rows: [] },
+        synthesizedHeaders: {},
+        buildError: 'Nenhum dado encontrado com as opções de leitura escolhidas.',
+      };
+    }
+    try {
+      const options = { headerRowIndex, headerRowCount, skipRows };
+      return {
+        data: buildWorksheetData(activeSource, options),
+        synthesizedHeaders: resolveWorksheetHeaders(activeSource, options).synthesized,
+        buildError: null,
+      };
+    } catch (error) {
+      return {
+        data: { headers: [], rows: [] },
+        synthesizedHeaders: {},
+        buildError: error instanceof Error ? error.message : 'Não foi possível montar os dados.',
+      };
+    }
+  }, [activeSource, headerRowIndex, headerRowCount, skipRows]);
+
+  const synthesizedCount = Object.keys(synthesizedHeaders).length;
+  const headerCandidates = activeSource?.headerCandidates ?? [];
+  // Além das primeiras linhas guardadas, a grade bruta precisa ser remontada
+  const rawPreviewCount = Math.max(RAW_PREVIEW_ROWS, headerRowIndex + headerRowCount + skipRows + 3);
+  const rawPreviewRows = !activeSource
+    ? []
+    : (rawPreviewCount <= activeSource.headRows.length ? activeSource.headRows : getWorksheetGrid(activeSource)).slice(0, rawPreviewCount);
+
+  const handleTextOptionChange = (patch: Partial<TextImportOptions>) => {
+    if (!textOptions) return;
+    setTextOptions({ ...textOptions, ...patch });
+  };
+
+  // Colunas que entraram e saíram em relação à planilha existente
+  const headerDiff = useMemo(
+    () => (existingHeaders && existingHeaders.length > 0 ? diffHeaders(existingHeaders, data.headers) : { added: [], removed: [] }),
+    [data.headers, existingHeaders]
+  );
+
+  // Renomeações em vigor: sugestões por nome parecido, com as escolhas do usuário por cima
+  const columnRenames: Record<string, string> = useMemo(() => {
+    const renames: Record<string, string> = {};
+    const choices: Record<string, string> = { ...suggestColumnRenames(headerDiff.removed, headerDiff.added), ...renameChoices };
+    Object.entries(choices).forEach(([oldHeader, newHeader]) => {
+      if (
+        newHeader &&
+        headerDiff.removed.includes(oldHeader) &&
+        headerDiff.added.includes(newHeader) &&
+        !Object.values(renames).includes(newHeader)
+      ) {
+        renames[oldHeader] = newHeader;
+      }
+    });
+    return renames;
+  }, [headerDiff, renameChoices]);
 
   // Determinar status das colunas
   const columnStatus = useMemo(() => {
-    const status: Record<string, 'present' | 'missing' | 'custom' | 'none'> = {};
+    const status: Record<string, 'present' | 'missing' | 'custom' | 'new' | 'renamed' | 'none'> = {};
     
     // Se não há headers existentes (arquivo novo), não marcar status
     if (!existingHeaders || existingHeaders.length === 0) {
@@ -51,28 +175,31 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
     }
 
     // Marcar colunas do arquivo carregado
+    const renameTargets = Object.values(columnRenames);
     data.headers.forEach(header => {
       // 'present' apenas se existe TANTO no arquivo existente QUANTO no novo
-      status[header] = existingHeaders.includes(header) ? 'present' : 'none';
+      status[header] = existingHeaders.includes(header) ? 'present' : renameTargets.includes(header) ? 'renamed' : 'new';
     });
 
     // Marcar colunas que faltam (existem na base mas não no arquivo carregado)
     existingHeaders.forEach(header => {
-      if (!data.headers.includes(header)) {
+      if (!data.headers.includes(header) && !columnRenames[header]) {
         status[header] = 'missing';
       }
     });
 
     return status;
-  }, [data.headers, existingHeaders]);
+  }, [data.headers, existingHeaders, columnRenames]);
 
-  // Identificar colunas faltantes
-  const missingColumns = useMemo(() => {
-    if (!existingHeaders || existingHeaders.length === 0) {
-      return [];
-    }
-    return existingHeaders.filter(header => !data.headers.includes(header));
-  }, [data.headers, existingHeaders]);
+  // Identificar colunas faltantes (as renomeadas vêm do arquivo com o novo nome)
+  const missingColumns = useMemo(
+    () => headerDiff.removed.filter(header => !columnRenames[header]),
+    [headerDiff, columnRenames]
+  );
+  const addedColumns = useMemo(
+    () => headerDiff.added.filter(header => !Object.values(columnRenames).includes(header)),
+    [headerDiff, columnRenames]
+  );
 
   // Verificar se está mesclando (tem headers existentes e não é nova planilha)
   const isMerging = existingHeaders && existingHeaders.length > 0 && !isNewSheet;
@@ -82,13 +209,11 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
     const combined = [...data.headers];
     
     // Adicionar colunas faltantes
-    if (existingHeaders) {
-      existingHeaders.forEach(header => {
-        if (!combined.includes(header)) {
-          combined.push(header);
-        }
-      });
-    }
+    missingColumns.forEach(header => {
+      if (!combined.includes(header)) {
+        combined.push(header);
+      }
+    });
     
     // Adicionar colunas customizadas
     customColumns.forEach(col => {
@@ -98,7 +223,7 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
     });
     
     return combined;
-  }, [data.headers, existingHeaders, customColumns]);
+  }, [data.headers, missingColumns, customColumns]);
 
   const previewData = useMemo(() => {
     const newHeaders = [...allHeaders];
@@ -118,10 +243,12 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
       }
     });
 
-    // Adicionar valores das colunas faltantes (quando está mesclando)
+    // Adicionar valores das colunas faltantes (quando está mesclando). Sem valor
+    // digitado, a coluna fica fora das linhas e a planilha mantém o que já tinha
     if (isMerging) {
       missingColumns.forEach(colName => {
-        const value = missingColumnValues[colName] || '';
+        const value = missingColumnValues[colName];
+        if (!value) return;
         newRows.forEach(row => {
           row[colName] = value;
         });
@@ -131,6 +258,30 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
     return { headers: newHeaders, rows: newRows };
   }, [data.rows, allHeaders, customColumns, columnStatus, isMerging, missingColumns, missingColumnValues]);
 
+  // Tipos das colunas: inferidos dos dados, com as escolhas do usuário por cima
+  const [typeOverrides, setTypeOverrides] = useState<Record<string, ColumnType>>(initialProfile?.columnTypes ?? {});
+
+  // Colunas renomeadas mantêm o tipo que tinham na planilha
+  const columnTypes = useMemo(() => {
+    const renamedTypes: Record<string, ColumnType> = {};
+    Object.entries(columnRenames).forEach(([oldHeader, newHeader]) => {
+      const type = existingColumnTypes?.[oldHeader];
+      if (type) renamedTypes[newHeader] = type;
+    });
+    return {
+      ...inferColumnTypes(previewData),
+      ...existingColumnTypes,
+      ...renamedTypes,
+      ...typeOverrides,
+    };
+  }, [previewData, existingColumnTypes, columnRenames, typeOverrides]);
+
+  // Mostrar apenas as primeiras 10 linhas na pré-visualização, já convertidas
+  const previewRows = useMemo(
+    () => applyColumnTypes({ ...previewData, rows: previewData.rows.slice(0, 10) }, columnTypes).rows,
+    [previewData, columnTypes]
+  );
+
   // Salvar coluna atual (se tiver nome válido)
   const handleSaveCurrentColumn = () => {
     const trimmedName = newColumnName.trim();
@@ -181,7 +332,78 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
     setCustomColumns(customColumns.filter(col => col.name !== columnName));
   };
 
+  // Aplicar um perfil escolhido manualmente (ou voltar à detecção automática)
+  const handleSelectProfile = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    setAppliedProfileId(profile?.id ?? null);
+    setProfileName(profile?.name ?? '');
+    if (!profile) {
+      setHeaderRowIndex(headerCandidates[0]?.rowIndex ?? 0);
+      setHeaderRowCount(1);
+      setSkipRows(0);
+      setCustomColumns([]);
+      setHiddenColumns([]);
+      setTypeOverrides({});
+      return;
+    }
+
+    const match = activeSource ? findMatchingProfile(activeSource, [profile]) : null;
+    setHeaderRowIndex(match?.headerRowIndex ?? profile.headerRowIndex);
+    setHeaderRowCount(profile.headerRowCount);
+    setSkipRows(profile.skipRows);
+    setCustomColumns(profile.customColumns);
+    setHiddenColumns(profile.hiddenColumns);
+    setTypeOverrides(profile.columnTypes);
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name || !onSaveProfile) {
+      alert('Informe um nome para o perfil de importação.');
+      return;
+    }
+    if (buildError) {
+      alert(buildError);
+      return;
+    }
+
+    const existing = profiles.find(p => p.name === name);
+    const profile: ImportProfile = {
+      id: existing?.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      headerSignature: computeHeaderSignature(data.headers),
+      headerRowIndex,
+      headerRowCount,
+      skipRows,
+      customColumns,
+      columnTypes: typeOverrides,
+      hiddenColumns: hiddenColumns.filter(header => allHeaders.includes(header)),
+      updatedAt: new Date().toISOString(),
+    };
+    onSaveProfile(profile);
+    setAppliedProfileId(profile.id);
+  };
+
+  const handleDeleteProfile = () => {
+    const profile = profiles.find(p => p.id === appliedProfileId);
+    if (!profile || !onDeleteProfile) return;
+    if (confirm(`Excluir o perfil de importação "${profile.name}"?`)) {
+      onDeleteProfile(profile.id);
+      setAppliedProfileId(null);
+      setProfileName('');
+    }
+  };
+
+  const toggleHiddenColumn = (header: string) => {
+    setHiddenColumns(prev => prev.includes(header) ? prev.filter(h => h !== header) : [...prev, header]);
+  };
+
   const handleConfirm = () => {
+    if (buildError || !activeSource) {
+      alert(buildError ?? 'Não foi possível montar os dados do arquivo.');
+      return;
+    }
+
     // Se estiver adicionando uma coluna, incluir ela nos dados antes de confirmar
     let finalData = previewData;
     if (isAddingColumn && newColumnName.trim()) {
@@ -197,6 +419,13 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
       };
     }
     
+    const importResult = summarizeWorksheetImport(
+      fileName,
+      activeSource,
+      { headerRowIndex, headerRowCount, skipRows },
+      finalData.rows.length
+    );
+
     // Se é nova planilha, validar identificador
     if (isNewSheet) {
       const trimmedIdentifier = sheetIdentifier.trim();
@@ -206,25 +435,35 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
       }
       
       // Verificar se já existe
+      if (existingSheets.find(sheet => sheet.key === trimmedIdentifier)?.deletedAt) {
+        alert(
+          `A planilha "${trimmedIdentifier}" está na lixeira.\n\n` +
+          `Restaure-a pela lixeira do menu principal ou exclua-a definitivamente para reutilizar o identificador.`
+        );
+        return;
+      }
       if (existingIdentifiers.includes(trimmedIdentifier)) {
         alert(
           `Já existe uma planilha com o identificador "${trimmedIdentifier}".\n\n` +
           `Para modificar os dados dessa planilha:\n` +
           `1. Acesse a planilha "${trimmedIdentifier}" no menu principal\n` +
           `2. Use "Opções > Atualizar Esta Planilha" para adicionar/atualizar registros\n` +
-          `3. Ou use "Opções > Excluir Esta Planilha" para remover todos os dados`
+          `3. Ou use "Opções > Excluir Esta Planilha" e esvazie a lixeira para remover todos os dados`
         );
         return;
       }
       
-      onConfirm(finalData, trimmedIdentifier);
+      onConfirm(
+        applyColumnTypes(finalData, columnTypes),
+        importResult,
+        { key: trimmedIdentifier, type: classification?.type, period: classification?.period },
+        hiddenColumns.filter(header => finalData.headers.includes(header))
+      );
     } else {
-      onConfirm(finalData);
+      onConfirm(applyColumnTypes(finalData, columnTypes), importResult, undefined, undefined, columnRenames);
     }
   };
 
-  // Mostrar apenas as primeiras 10 linhas na pré-visualização
-  const previewRows = previewData.rows.slice(0, 10);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
@@ -233,7 +472,7 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
           <h2 className="text-2xl font-bold text-gray-800">Pré-visualização dos Dados</h2>
           {fileName && (
             <p className="text-sm font-semibold text-indigo-600 mt-1">
-              Arquivo: {fileName}
+              Arquivo: {fileName}{source.name && <span className="text-gray-500 font-normal"> — Aba: {source.name}</span>}
             </p>
           )}
           <p className="text-sm text-gray-600 mt-1">
@@ -242,6 +481,207 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
         </header>
 
         <div className="flex-grow overflow-y-auto p-6 space-y-6">
+          {/* Perfil de importação */}
+          {onSaveProfile && (
+            <div className="border border-gray-200 rounded-lg bg-gray-50 px-4 py-3 flex flex-wrap items-center gap-3">
+              <h3 className="text-sm font-semibold text-gray-700">Perfil de Importação</h3>
+              <select
+                value={appliedProfileId ?? ''}
+                onChange={(e) => handleSelectProfile(e.target.value)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-indigo-500"
+              >
+                <option value="">Nenhum (detecção automática)</option>
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+              {initialProfile && appliedProfileId === initialProfile.id && (
+                <span className="text-xs text-green-700 bg-green-100 px-2 py-0.5 rounded-full">Reconhecido pelo cabeçalho do arquivo</span>
+              )}
+              {appliedProfileId && onDeleteProfile && (
+                <button
+                  onClick={handleDeleteProfile}
+                  className="text-xs text-red-600 hover:text-red-800"
+                >
+                  Excluir perfil
+                </button>
+              )}
+              <div className="flex items-center gap-2 ml-auto">
+                <input
+                  type="text"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  placeholder="Nome do perfil (ex: Ofertas SIAA)"
+                  className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                />
+                <button
+                  onClick={handleSaveProfile}
+                  className="px-3 py-1 text-sm bg-white text-indigo-600 font-semibold border border-indigo-600 rounded hover:bg-indigo-50 transition"
+                  title="Guardar linha de cabeçalho, colunas personalizadas, tipos e colunas ocultas para os próximos arquivos"
+                >
+                  Salvar perfil
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Seleção da linha de cabeçalho */}
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <div className="bg-gray-100 px-4 py-2 border-b border-gray-200 flex flex-wrap items-center gap-4">
+              <h3 className="text-sm font-semibold text-gray-700">Estrutura do Arquivo</h3>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <span>Cabeçalho:</span>
+                <select
+                  value={headerRowIndex}
+                  onChange={(e) => setHeaderRowIndex(Number(e.target.value))}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                >
+                  {headerCandidates.map((candidate, index) => (
+                    <option key={candidate.rowIndex} value={candidate.rowIndex}>
+                      Linha {candidate.rowIndex + 1}{index === 0 ? ' (sugerida)' : ''} — {candidate.reason}
+                    </option>
+                  ))}
+                  {!headerCandidates.some(c => c.rowIndex === headerRowIndex) && (
+                    <option value={headerRowIndex}>Linha {headerRowIndex + 1} (manual)</option>
+                  )}
+                </select>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <span>Linhas de cabeçalho:</span>
+                <select
+                  value={headerRowCount}
+                  onChange={(e) => setHeaderRowCount(Number(e.target.value) as 1 | 2)}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                >
+                  <option value={1}>1</option>
+                  <option value={2}>2 (combinar)</option>
+                </select>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <span>Ignorar após o cabeçalho:</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={skipRows}
+                  onChange={(e) => setSkipRows(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                />
+                <span>linha(s)</span>
+              </label>
+            </div>
+            {textOptions && (
+              <div className="bg-gray-50 px-4 py-2 border-b border-gray-200 flex flex-wrap items-center gap-4 text-sm text-gray-700">
+                <label className="flex items-center space-x-2">
+                  <span>Codificação:</span>
+                  <select
+                    value={textOptions.encoding}
+                    onChange={(e) => handleTextOptionChange({ encoding: e.target.value as TextImportOptions['encoding'] })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  >
+                    {TEXT_ENCODINGS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <span>Delimitador:</span>
+                  <select
+                    value={textOptions.delimiter}
+                    onChange={(e) => handleTextOptionChange({ delimiter: e.target.value as TextImportOptions['delimiter'] })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  >
+                    {DELIMITERS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <span>Decimal:</span>
+                  <select
+                    value={textOptions.decimalSeparator}
+                    onChange={(e) => handleTextOptionChange({ decimalSeparator: e.target.value as TextImportOptions['decimalSeparator'] })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  >
+                    {DECIMAL_SEPARATORS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                </label>
+              </div>
+            )}
+            <div className="overflow-x-auto max-h-64">
+              <table className="min-w-full text-xs">
+                <tbody>
+                  {rawPreviewRows.map((row, rowIndex) => {
+                    const lastHeaderRow = headerRowIndex + headerRowCount - 1;
+                    const isHeader = rowIndex >= headerRowIndex && rowIndex <= lastHeaderRow;
+                    const isSkipped = rowIndex < headerRowIndex || (rowIndex > lastHeaderRow && rowIndex <= lastHeaderRow + skipRows);
+                    return (
+                      <tr
+                        key={rowIndex}
+                        onClick={() => setHeaderRowIndex(rowIndex)}
+                        className={`cursor-pointer border-b border-gray-100 ${
+                          isHeader ? 'bg-indigo-100 font-semibold text-indigo-800' :
+                          isSkipped ? 'bg-gray-50 text-gray-400 line-through' :
+                          'hover:bg-gray-50 text-gray-700'
+                        }`}
+                        title="Clique para usar esta linha como cabeçalho"
+                      >
+                        <td className="px-2 py-1 text-gray-400 text-right w-10">{rowIndex + 1}</td>
+                        {Array.from({ length: RAW_PREVIEW_COLUMNS }, (_, colIndex) => (
+                          <td key={colIndex} className="px-2 py-1 whitespace-nowrap max-w-[160px] truncate">
+                            {row[colIndex] !== null && row[colIndex] !== undefined ? String(row[colIndex]) : ''}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {buildError && (
+              <div className="px-4 py-2 bg-red-50 border-t border-red-200 text-sm text-red-700">{buildError}</div>
+            )}
+            {!buildError && synthesizedCount > 0 && (
+              <div className="px-4 py-2 bg-amber-50 border-t border-amber-200 text-sm text-amber-800">
+                {synthesizedCount} nome{synthesizedCount > 1 ? 's' : ''} de coluna {synthesizedCount > 1 ? 'foram gerados ou ajustados' : 'foi gerado ou ajustado'} automaticamente (marcados com ⚠ na tabela abaixo).
+              </div>
+            )}
+          </div>
+
+          {/* Colunas que mudaram em relação à planilha existente */}
+          {isMerging && (headerDiff.added.length > 0 || headerDiff.removed.length > 0) && (
+            <div className="border border-amber-200 rounded-lg bg-amber-50 p-4 text-sm text-gray-700 space-y-3">
+              <h3 className="font-semibold text-amber-900">As colunas do arquivo mudaram</h3>
+              {headerDiff.removed.length > 0 && (
+                <div className="space-y-2">
+                  <p>
+                    Colunas da planilha que não estão no arquivo. Se alguma foi renomeada, escolha o novo nome; as demais
+                    recebem o valor digitado na tabela abaixo ou, sem valor, mantêm o que já têm na planilha.
+                  </p>
+                  {headerDiff.removed.map(oldHeader => (
+                    <label key={oldHeader} className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-800 min-w-[10rem]">{oldHeader}</span>
+                      <span className="text-gray-400">→</span>
+                      <select
+                        value={columnRenames[oldHeader] ?? ''}
+                        onChange={e => setRenameChoices({ ...renameChoices, [oldHeader]: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                      >
+                        <option value="">Não está no arquivo</option>
+                        {headerDiff.added
+                          .filter(newHeader => columnRenames[oldHeader] === newHeader || !Object.values(columnRenames).includes(newHeader))
+                          .map(newHeader => (
+                            <option key={newHeader} value={newHeader}>Renomeada para "{newHeader}"</option>
+                          ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              )}
+              {addedColumns.length > 0 && (
+                <p>
+                  <span className="font-medium text-green-700">Colunas novas:</span> {addedColumns.join(', ')}. Serão
+                  acrescentadas à planilha; as linhas já existentes ficam vazias nelas.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Pré-visualização da tabela */}
           <div className="border border-gray-200 rounded-lg overflow-hidden">
             <div className="bg-gray-100 px-4 py-2 border-b border-gray-200">
@@ -274,11 +714,24 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                                 </svg>
                               )}
+                              {(status === 'new' || status === 'renamed') && !isCustom && (
+                                <span
+                                  className={`px-1 rounded text-[10px] normal-case ${status === 'new' ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}
+                                  title={status === 'renamed'
+                                    ? `Antes: ${Object.keys(columnRenames).find(oldHeader => columnRenames[oldHeader] === header)}`
+                                    : 'Coluna nova na planilha'}
+                                >
+                                  {status === 'new' ? 'nova' : 'renomeada'}
+                                </span>
+                              )}
                               {isCustom && (
                                 <svg className="w-4 h-4 text-indigo-600" fill="currentColor" viewBox="0 0 24 24">
                                   <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z"/>
                                 </svg>
                               )}
+                              {synthesizedHeaders[header] && !isCustom && (
+                                <span className="text-amber-600" title={SYNTHESIZED_HEADER_LABELS[synthesizedHeaders[header]]}>⚠</span>
+                              )}
                               <span className={
                                 status === 'missing' ? 'text-red-600' :
                                 isCustom ? 'text-indigo-600' :
@@ -299,6 +752,29 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
                               </button>
                             )}
                           </div>
+                          {status !== 'missing' && (
+                            <select
+                              value={columnTypes[header] ?? 'text'}
+                              onChange={(e) => setTypeOverrides({ ...typeOverrides, [header]: e.target.value as ColumnType })}
+                              className="mt-1 w-full px-1 py-0.5 text-xs font-normal normal-case tracking-normal border border-gray-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                              title="Tipo da coluna"
+                            >
+                              {COLUMN_TYPES.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          )}
+                          {!isMerging && (
+                            <label className="mt-1 flex items-center space-x-1 text-xs font-normal normal-case tracking-normal text-gray-600 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={!hiddenColumns.includes(header)}
+                                onChange={() => toggleHiddenColumn(header)}
+                                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                              />
+                              <span>Visível</span>
+                            </label>
+                          )}
                         </th>
                       );
                     })}
@@ -375,7 +851,7 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
                               // Valor normal da célula
                               <span className={isCustom ? 'text-indigo-700 font-medium' : 'text-gray-800'}>
                                 {row[header] !== null && row[header] !== undefined
-                                  ? String(row[header])
+                                  ? formatTypedValue(row[header], columnTypes[header])
                                   : '-'}
                               </span>
                             )}
@@ -433,6 +909,12 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
                 </svg>
                 <span className="text-gray-600">Coluna personalizada adicionada</span>
               </div>
+              {synthesizedCount > 0 && (
+                <div className="flex items-center space-x-1">
+                  <span className="text-amber-600">⚠</span>
+                  <span className="text-gray-600">Nome de coluna gerado ou ajustado (passe o mouse para detalhes)</span>
+                </div>
+              )}
               {!isMerging && (
                 <div className="flex items-center space-x-1">
                   <svg className="w-4 h-4 text-indigo-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -455,11 +937,39 @@ export const DataPreviewModal: React.FC<DataPreviewModalProps> = ({
                 type="text"
                 value={sheetIdentifier}
                 onChange={(e) => setSheetIdentifier(e.target.value)}
-                placeholder={fileName ? fileName.replace(/\.(xlsx?|xlsm)$/i, '') : 'Ex: Ofertas_2024_1, Alunos_Ativos, etc.'}
+                placeholder={fileName ? fileName.replace(/\.(xlsx?|xlsm|ods|csv|tsv)$/i, '') : 'Ex: Ofertas_2024_1, Alunos_Ativos, etc.'}
                 className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-base"
               />
+              <div className="mt-3 flex items-center space-x-3 text-sm">
+                {classification ? (
+                  <>
+                    <span className="px-2 py-1 bg-white border border-blue-200 rounded text-blue-800">
+                      {classification.type} • {formatSheetPeriod(classification.period)}
+                    </span>
+                    <button onClick={() => setClassification(null)} className="text-gray-500 hover:text-gray-700">
+                      Remover
+                    </button>
+                  </>
+                ) : (
+                  <button onClick={() => setIsClassifying(true)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                    Definir tipo e período
+                  </button>
+                )}
+              </div>
             </div>
           )}
+
+          {isClassifying && (
+            <SheetSelectionModal
+              existingSheets={existingSheets}
+              onSelectNew={(type, period) => {
+                setClassification({ type, period });
+                setSheetIdentifier(buildSheetKey(type, period));
+                setIsClassifying(false);
+              }}
+              onCancel={() => setIsClassifying(false)}
+            />
+          )}
         </div>
 
         <footer className="p-4 bg-gray-50 border-t flex justify-between items-center">
@@ -1,24 +1,41 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import type { Row, SortConfig, SheetData, SheetMetadata } from '../types';
-import { SortIcon, AscIcon, DescIcon, MenuIcon, EyeIcon, CopyIcon, TrashIcon, UploadIcon, GridIcon, HomeIcon } from './icons';
+import type { Row, SortConfig, SheetData, SheetMetadata, DateFilter, DateFilterMode } from '../types';
+import { formatTypedValue } from '../utils/columnTypes';
+import { isDateFilterActive } from '../utils/dates';
+import { describeSheetClassification } from '../utils/sheetMetadata';
+import { SortIcon, AscIcon, DescIcon, MenuIcon, EyeIcon, CopyIcon, TrashIcon, UploadIcon, GridIcon, HomeIcon, CalendarIcon, ClipboardIcon, HistoryIcon, LayersIcon, PencilIcon, KeyIcon, DocumentDuplicateIcon } from './icons';
 
 interface DataTableProps {
   data: SheetData;
   processedRows: Row[];
   filters: Record<string, string>;
+  dateFilters: Record<string, DateFilter>;
   sortConfig: SortConfig | null;
   visibleColumns: string[];
   availableSheets: SheetMetadata[];
   currentSheetKey: string | null;
   onFilterChange: (key: string, value: string) => void;
+  onDateFilterChange: (key: string, filter: DateFilter | null) => void;
   onSort: (key: string) => void;
   onBackToMenu: () => void;
   onUpdateData: () => void;
+  onPasteData: () => void;
+  onShowImportHistory: () => void;
+  onShowSnapshots: () => void;
+  onEditSheetInfo: () => void;
+  onEditKeyColumns: () => void;
+  onRemoveDuplicates: () => void;
   onClearStorage: () => void;
   onColumnVisibilityChange: (columns: string[]) => void;
   onSwitchSheet: (sheetKey: string) => void;
 }
 
+const DATE_FILTER_MODES: Array<{ value: DateFilterMode; label: string }> = [
+  { value: 'between', label: 'Entre' },
+  { value: 'before', label: 'Antes de' },
+  { value: 'after', label: 'Depois de' },
+];
+
 const ROW_HEIGHT = 37; // Corresponds to Tailwind's h-9 (36px) + 1px border
 const OVERSCAN_COUNT = 3; // Rows to render above and below the visible area
 
@@ -26,14 +43,22 @@ const DataTable: React.FC<DataTableProps> = ({
   data,
   processedRows,
   filters,
+  dateFilters,
   sortConfig,
   visibleColumns: visibleColumnsProp,
   availableSheets,
   currentSheetKey,
   onFilterChange,
+  onDateFilterChange,
   onSort,
   onBackToMenu,
   onUpdateData,
+  onPasteData,
+  onShowImportHistory,
+  onShowSnapshots,
+  onEditSheetInfo,
+  onEditKeyColumns,
+  onRemoveDuplicates,
   onClearStorage,
   onColumnVisibilityChange,
   onSwitchSheet,
@@ -47,6 +72,7 @@ const DataTable: React.FC<DataTableProps> = ({
   const [resizingColumn, setResizingColumn] = useState<string | null>(null);
   const [resizeStartX, setResizeStartX] = useState(0);
   const [resizeStartWidth, setResizeStartWidth] = useState(0);
+  const [openDateFilter, setOpenDateFilter] = useState<string | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
   
@@ -65,7 +91,7 @@ const DataTable: React.FC<DataTableProps> = ({
     const visibleHeaders = data.headers.filter(h => visibleColumnsSet.has(h));
     const headerRow = visibleHeaders.join('\t');
     const dataRows = processedRows.map(row => 
-      visibleHeaders.map(header => String(row[header] ?? '')).join('\t')
+      visibleHeaders.map(header => formatTypedValue(row[header], data.columnTypes?.[header])).join('\t')
     ).join('\n');
     
     const text = `${headerRow}\n${dataRows}`;
@@ -75,7 +101,7 @@ const DataTable: React.FC<DataTableProps> = ({
     }).catch(() => {
       alert('Erro ao copiar dados.');
     });
-  }, [data.headers, processedRows, visibleColumnsSet]);
+  }, [data.headers, data.columnTypes, processedRows, visibleColumnsSet]);
   
   const handleScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
     const newScrollTop = event.currentTarget.scrollTop;
@@ -175,11 +201,19 @@ const DataTable: React.FC<DataTableProps> = ({
   const headerTitle = currentSheet 
     ? currentSheet.name
     : 'Visualizador de Planilha';
+  const headerClassification = currentSheet ? describeSheetClassification(currentSheet) : '';
   
   return (
     <div className="h-screen w-screen flex flex-col bg-gray-50 text-gray-800">
       <header className="p-4 bg-white border-b border-gray-200 shadow-sm flex items-center justify-between">
-        <h1 className="text-xl font-bold text-gray-700">{headerTitle}</h1>
+        <div>
+          <h1 className="text-xl font-bold text-gray-700">{headerTitle}</h1>
+          {(headerClassification || currentSheet?.description) && (
+            <p className="text-sm text-gray-500" title={currentSheet?.description}>
+              {[headerClassification, currentSheet?.description].filter(Boolean).join(' — ')}
+            </p>
+          )}
+        </div>
         <div className="flex items-center space-x-2">
           <button
             onClick={onBackToMenu}
@@ -286,6 +320,72 @@ const DataTable: React.FC<DataTableProps> = ({
                   <UploadIcon />
                   <span>Atualizar Esta Planilha</span>
                 </button>
+
+                <button
+                  onClick={() => {
+                    onPasteData();
+                    setIsMenuOpen(false);
+                  }}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 text-gray-700"
+                >
+                  <ClipboardIcon />
+                  <span>Colar Dados Nesta Planilha</span>
+                </button>
+
+                <button
+                  onClick={() => {
+                    onShowImportHistory();
+                    setIsMenuOpen(false);
+                  }}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 text-gray-700"
+                >
+                  <HistoryIcon />
+                  <span>Histórico de Importações</span>
+                </button>
+
+                <button
+                  onClick={() => {
+                    onShowSnapshots();
+                    setIsMenuOpen(false);
+                  }}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 text-gray-700"
+                >
+                  <LayersIcon />
+                  <span>Versões da Planilha</span>
+                </button>
+
+                <button
+                  onClick={() => {
+                    onEditSheetInfo();
+                    setIsMenuOpen(false);
+                  }}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 text-gray-700"
+                >
+                  <PencilIcon />
+                  <span>Editar Informações</span>
+                </button>
+
+                <button
+                  onClick={() => {
+                    onEditKeyColumns();
+                    setIsMenuOpen(false);
+                  }}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 text-gray-700"
+                >
+                  <KeyIcon />
+                  <span>Colunas-Chave</span>
+                </button>
+
+                <button
+                  onClick={() => {
+                    onRemoveDuplicates();
+                    setIsMenuOpen(false);
+                  }}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-100 flex items-center space-x-2 text-gray-700"
+                >
+                  <DocumentDuplicateIcon />
+                  <span>Remover Duplicados</span>
+                </button>
                 
                 <button
                   onClick={() => {
@@ -365,13 +465,73 @@ const DataTable: React.FC<DataTableProps> = ({
                     zIndex: 20
                   }}
                 >
-                  <input
-                    type="text"
-                    placeholder={`Filtrar ${header}...`}
-                    value={filters[header] || ''}
-                    onChange={(e) => onFilterChange(header, e.target.value)}
-                    className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-400 text-sm font-normal"
-                  />
+                  <div className="flex items-center space-x-1">
+                    <input
+                      type="text"
+                      placeholder={
+                        data.columnTypes?.[header] === 'integer' || data.columnTypes?.[header] === 'decimal'
+                          ? 'Ex: >10, 5..20'
+                          : `Filtrar ${header}...`
+                      }
+                      value={filters[header] || ''}
+                      onChange={(e) => onFilterChange(header, e.target.value)}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-400 text-sm font-normal"
+                    />
+                    {data.columnTypes?.[header] === 'date' && (
+                      <button
+                        onClick={() => setOpenDateFilter(openDateFilter === header ? null : header)}
+                        className={`p-1 rounded-md flex-shrink-0 ${
+                          isDateFilterActive(dateFilters[header]) ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:bg-gray-300'
+                        }`}
+                        title="Filtrar por período"
+                      >
+                        <CalendarIcon />
+                      </button>
+                    )}
+                  </div>
+                  {openDateFilter === header && (
+                    <div className="absolute left-0 top-full mt-1 w-60 bg-white rounded-lg shadow-xl border border-gray-200 p-3 space-y-2 text-left font-normal z-50">
+                      <select
+                        value={dateFilters[header]?.mode ?? 'between'}
+                        onChange={(e) => onDateFilterChange(header, { ...dateFilters[header], mode: e.target.value as DateFilterMode })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                      >
+                        {DATE_FILTER_MODES.map(mode => (
+                          <option key={mode.value} value={mode.value}>{mode.label}</option>
+                        ))}
+                      </select>
+                      {(dateFilters[header]?.mode ?? 'between') !== 'before' && (
+                        <input
+                          type="date"
+                          value={dateFilters[header]?.from ?? ''}
+                          onChange={(e) => onDateFilterChange(header, { mode: 'between', ...dateFilters[header], from: e.target.value || undefined })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                        />
+                      )}
+                      {(dateFilters[header]?.mode ?? 'between') !== 'after' && (
+                        <input
+                          type="date"
+                          value={dateFilters[header]?.to ?? ''}
+                          onChange={(e) => onDateFilterChange(header, { mode: 'between', ...dateFilters[header], to: e.target.value || undefined })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                        />
+                      )}
+                      <div className="flex justify-between pt-1">
+                        <button
+                          onClick={() => onDateFilterChange(header, null)}
+                          className="text-sm text-red-600 hover:text-red-800"
+                        >
+                          Limpar
+                        </button>
+                        <button
+                          onClick={() => setOpenDateFilter(null)}
+                          className="text-sm text-indigo-600 hover:text-indigo-800"
+                        >
+                          Fechar
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </th>
               ))}
             </tr>
@@ -395,9 +555,9 @@ const DataTable: React.FC<DataTableProps> = ({
                         maxWidth: columnWidths[header] || 200
                       }}
                       className="px-4 py-2 border-b border-gray-200 whitespace-nowrap overflow-hidden text-ellipsis"
-                      title={String(row[header] ?? '')}
+                      title={formatTypedValue(row[header], data.columnTypes?.[header])}
                     >
-                      {String(row[header] ?? '')}
+                      {formatTypedValue(row[header], data.columnTypes?.[header])}
                     </td>
                   ))}
                 </tr>
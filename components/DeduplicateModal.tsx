@@ -0,0 +1,235 @@
+import React, { useState, useMemo } from 'react';
+import type { ColumnType, Row } from '../types';
+import { formatTypedValue } from '../utils/columnTypes';
+import {
+  SURVIVOR_RULES,
+  collectRemovedRows,
+  findDifferingColumns,
+  findDuplicateGroups,
+  pickSurvivor,
+  resolveRowImportTimes,
+} from '../utils/deduplication';
+import type { SurvivorRule } from '../utils/deduplication';
+
+export interface DeduplicationReport {
+  columns: string[];
+  rule: SurvivorRule;
+  groupCount: number;
+  removedRows: number[]; // Índices na planilha
+}
+
+interface DeduplicateModalProps {
+  headers: string[];
+  rows: Row[];
+  rowImportedAt?: number[]; // Momento de importação de cada linha (ver SheetData)
+  columnTypes?: Record<string, ColumnType>;
+  keyColumns: string[]; // Sugestão inicial para as colunas de identificação
+  onConfirm: (report: DeduplicationReport) => void;
+  onCancel: () => void;
+}
+
+// Grupos exibidos por vez; "Mostrar mais" acrescenta outro bloco
+const PAGE_SIZE = 50;
+
+// Linhas de antes do registro de importação não têm data
+const formatImportTime = (time: number) => (time > 0 ? new Date(time).toLocaleString('pt-BR') : '—');
+
+/**
+ * Localiza linhas repetidas pelas colunas escolhidas, mostra cada grupo lado a
+ * lado e remove as que não ficam, conforme a regra (ou a escolha em cada grupo).
+ */
+export const DeduplicateModal: React.FC<DeduplicateModalProps> = ({
+  headers,
+  rows,
+  rowImportedAt,
+  columnTypes,
+  keyColumns,
+  onConfirm,
+  onCancel,
+}) => {
+  const [columns, setColumns] = useState<string[]>(keyColumns);
+  const [ignoreFormatting, setIgnoreFormatting] = useState(false);
+  const [rule, setRule] = useState<SurvivorRule>('newest');
+  // Escolhas manuais: índice do grupo → linha que fica
+  const [manualPicks, setManualPicks] = useState<Record<number, number>>({});
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const importTimes = useMemo(() => resolveRowImportTimes(rows, rowImportedAt), [rows, rowImportedAt]);
+
+  const groups = useMemo(
+    () => (columns.length > 0 ? findDuplicateGroups(rows, columns, ignoreFormatting) : []),
+    [rows, columns, ignoreFormatting]
+  );
+
+  // Na escolha manual, os grupos sem escolha começam com a linha importada por último
+  const survivors = useMemo(
+    () => groups.map((group, groupIndex) =>
+      rule === 'manual' && manualPicks[groupIndex] !== undefined
+        ? manualPicks[groupIndex]
+        : pickSurvivor(rows, group, headers, rule, importTimes)
+    ),
+    [groups, rows, importTimes, headers, rule, manualPicks]
+  );
+
+  const removedRows = useMemo(() => collectRemovedRows(groups, survivors), [groups, survivors]);
+
+  // Os grupos mudam com as colunas: as escolhas anteriores não valem mais
+  const toggleColumn = (header: string) => {
+    setColumns(prev =>
+      prev.includes(header) ? prev.filter(column => column !== header) : headers.filter(h => h === header || prev.includes(h))
+    );
+    setManualPicks({});
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleIgnoreFormattingChange = (value: boolean) => {
+    setIgnoreFormatting(value);
+    setManualPicks({});
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleConfirm = () => {
+    if (!confirm(`Remover ${removedRows.length.toLocaleString('pt-BR')} linha(s) repetida(s)?`)) return;
+    onConfirm({ columns, rule, groupCount: groups.length, removedRows });
+  };
+
+  const ruleInfo = SURVIVOR_RULES.find(option => option.value === rule);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">Remover Duplicados</h2>
+          <p className="text-sm text-gray-500">
+            Escolha as colunas que identificam um registro; as linhas com os mesmos valores nelas são agrupadas.
+          </p>
+        </header>
+
+        <div className="p-4 border-b space-y-3">
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {headers.map(header => (
+              <label key={header} className="flex items-center space-x-1 text-sm text-gray-700">
+                <input type="checkbox" checked={columns.includes(header)} onChange={() => toggleColumn(header)} />
+                <span>{header}</span>
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" checked={ignoreFormatting} onChange={e => handleIgnoreFormattingChange(e.target.checked)} />
+            <span>Ignorar acentos, maiúsculas e espaços extras (encontra quase duplicados)</span>
+          </label>
+          <div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span className="font-semibold">Linha que fica:</span>
+              <select
+                value={rule}
+                onChange={e => setRule(e.target.value as SurvivorRule)}
+                className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {SURVIVOR_RULES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <p className="mt-1 text-xs text-gray-500">{ruleInfo?.description}</p>
+          </div>
+        </div>
+
+        <div className="p-4 flex-grow overflow-y-auto space-y-4">
+          {columns.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">Escolha ao menos uma coluna.</p>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-green-700">Nenhuma linha repetida nessas colunas.</p>
+          ) : (
+            groups.slice(0, visibleCount).map((group, groupIndex) => {
+              const differing = findDifferingColumns(rows, group, headers);
+              return (
+                <div key={group.rowIndexes[0]} className="border border-gray-200 rounded-lg overflow-hidden">
+                  <div className="bg-gray-100 px-3 py-2 text-sm font-medium text-gray-800 truncate">
+                    {group.id} ({group.rowIndexes.length} linhas)
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-xs">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-2 py-1 text-left font-semibold text-gray-600">Fica</th>
+                          <th className="px-2 py-1 text-left font-semibold text-gray-600">Linha</th>
+                          <th className="px-2 py-1 text-left font-semibold text-gray-600 whitespace-nowrap">Importada em</th>
+                          {headers.map(header => (
+                            <th
+                              key={header}
+                              className={`px-2 py-1 text-left font-semibold whitespace-nowrap ${differing.includes(header) ? 'text-amber-700' : 'text-gray-600'}`}
+                            >
+                              {header}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {group.rowIndexes.map(rowIndex => {
+                          const isSurvivor = survivors[groupIndex] === rowIndex;
+                          return (
+                            <tr key={rowIndex} className={isSurvivor ? 'bg-green-50' : 'bg-red-50 text-gray-500'}>
+                              <td className="px-2 py-1">
+                                <input
+                                  type="radio"
+                                  name={`survivor-${groupIndex}`}
+                                  checked={isSurvivor}
+                                  disabled={rule !== 'manual'}
+                                  onChange={() => setManualPicks({ ...manualPicks, [groupIndex]: rowIndex })}
+                                />
+                              </td>
+                              <td className="px-2 py-1">{(rowIndex + 1).toLocaleString('pt-BR')}</td>
+                              <td className="px-2 py-1 whitespace-nowrap">{formatImportTime(importTimes[rowIndex])}</td>
+                              {headers.map(header => (
+                                <td
+                                  key={header}
+                                  className={`px-2 py-1 whitespace-nowrap ${differing.includes(header) ? 'font-semibold' : ''}`}
+                                >
+                                  {formatTypedValue(rows[rowIndex][header], columnTypes?.[header])}
+                                </td>
+                              ))}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              );
+            })
+          )}
+          {groups.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+              className="text-sm text-indigo-600 hover:text-indigo-800"
+            >
+              Mostrar mais ({(groups.length - visibleCount).toLocaleString('pt-BR')} grupos restantes)
+            </button>
+          )}
+        </div>
+
+        <footer className="p-4 bg-gray-50 border-t flex justify-between items-center">
+          <span className="text-sm text-gray-600">
+            {groups.length.toLocaleString('pt-BR')} grupo(s); {removedRows.length.toLocaleString('pt-BR')} linha(s) serão removidas.
+          </span>
+          <div className="flex space-x-2">
+            <button
+              onClick={onCancel}
+              className="px-6 py-2 bg-gray-300 text-gray-700 font-semibold rounded-md hover:bg-gray-400 transition"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={removedRows.length === 0}
+              className="px-6 py-2 bg-red-600 text-white font-semibold rounded-md hover:bg-red-700 transition disabled:opacity-50"
+            >
+              Remover Duplicados
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import type { ImportLogEntry } from '../types';
+import { ImportLogTable } from './ImportLogTable';
+
+interface ImportHistoryModalProps {
+  sheetName: string;
+  entries: ImportLogEntry[];
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<ImportLogEntry['action'], string> = {
+  create: 'Criação',
+  update: 'Atualização',
+};
+
+/**
+ * Lista as importações que alimentaram a planilha, com o resultado de
+ * cada arquivo.
+ */
+export const ImportHistoryModal: React.FC<ImportHistoryModalProps> = ({ sheetName, entries, onClose }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(entries[0]?.id ?? null);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">Histórico de Importações</h2>
+          <p className="text-sm text-gray-500">{sheetName}</p>
+        </header>
+
+        <div className="p-6 flex-grow overflow-y-auto space-y-3">
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">Nenhuma importação registrada para esta planilha.</p>
+          ) : (
+            entries.map(entry => {
+              const isExpanded = expandedId === entry.id;
+              const failedCount = entry.files.filter(file => file.status === 'failed').length;
+              return (
+                <div key={entry.id} className="border rounded-md">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    className="w-full px-4 py-3 text-left hover:bg-gray-50 flex items-center justify-between"
+                  >
+                    <div>
+                      <div className="font-semibold text-gray-800">
+                        {ACTION_LABELS[entry.action]} — {new Date(entry.importedAt).toLocaleString('pt-BR')}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {entry.files.length} arquivo{entry.files.length > 1 ? 's' : ''}
+                        {' · '}{entry.rowsAdded.toLocaleString('pt-BR')} adicionados
+                        {' · '}{entry.rowsUpdated.toLocaleString('pt-BR')} atualizados
+                        {!!entry.rowsRemoved && <>{' · '}{entry.rowsRemoved.toLocaleString('pt-BR')} removidos</>}
+                        {failedCount > 0 && <span className="text-red-700"> · {failedCount} com erro</span>}
+                      </div>
+                    </div>
+                    <span className="text-gray-400">{isExpanded ? '▲' : '▼'}</span>
+                  </button>
+                  {isExpanded && (
+                    <div className="px-4 pb-4">
+                      <ImportLogTable files={entry.files} />
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <footer className="p-4 bg-gray-50 border-t text-right">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition"
+          >
+            Fechar
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import type { ImportFileResult, ImportFileStatus } from '../types';
+
+interface ImportLogTableProps {
+  files: ImportFileResult[];
+}
+
+const STATUS_LABELS: Record<ImportFileStatus, { label: string; className: string }> = {
+  imported: { label: 'Importado', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Falhou', className: 'bg-red-100 text-red-800' },
+  skipped: { label: 'Ignorado', className: 'bg-gray-200 text-gray-700' },
+};
+
+const formatHeaderRow = (file: ImportFileResult): string => {
+  if (file.headerRowIndex === undefined) return '—';
+  const first = file.headerRowIndex + 1;
+  return file.headerRowCount && file.headerRowCount > 1
+    ? `Linhas ${first}–${first + file.headerRowCount - 1}`
+    : `Linha ${first}`;
+};
+
+/**
+ * Tabela com o resultado de cada arquivo (ou aba) de uma importação.
+ */
+export const ImportLogTable: React.FC<ImportLogTableProps> = ({ files }) => {
+  return (
+    <div className="border rounded-md overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-100 text-gray-700">
+          <tr>
+            <th className="px-3 py-2 text-left font-semibold">Arquivo</th>
+            <th className="px-3 py-2 text-left font-semibold">Situação</th>
+            <th className="px-3 py-2 text-right font-semibold">Linhas lidas</th>
+            <th className="px-3 py-2 text-right font-semibold">Vazias ignoradas</th>
+            <th className="px-3 py-2 text-left font-semibold">Cabeçalho</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {files.map((file, index) => (
+            <tr key={`${file.fileName}-${file.worksheet ?? ''}-${index}`} className="align-top">
+              <td className="px-3 py-2 max-w-xs">
+                <div className="font-medium text-gray-800 truncate" title={file.fileName}>{file.fileName}</div>
+                {file.worksheet && <div className="text-xs text-gray-500 truncate">Aba: {file.worksheet}</div>}
+                {file.message && (
+                  <div className={`text-xs mt-1 ${file.status === 'failed' ? 'text-red-700' : 'text-gray-600'}`}>{file.message}</div>
+                )}
+              </td>
+              <td className="px-3 py-2">
+                <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_LABELS[file.status].className}`}>
+                  {STATUS_LABELS[file.status].label}
+                </span>
+              </td>
+              <td className="px-3 py-2 text-right text-gray-700">{file.rowsRead.toLocaleString('pt-BR')}</td>
+              <td className="px-3 py-2 text-right text-gray-700">{file.emptyRowsSkipped.toLocaleString('pt-BR')}</td>
+              <td className="px-3 py-2 text-gray-700 whitespace-nowrap">{formatHeaderRow(file)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
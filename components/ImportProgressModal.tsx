@@ -0,0 +1,98 @@
+import React from 'react';
+import type { ImportFileResult } from '../types';
+import type { ParseProgress } from '../utils/parserClient';
+import { formatBytes } from '../utils/storageUsage';
+import { ImportLogTable } from './ImportLogTable';
+
+interface ImportProgressModalProps {
+  isRunning: boolean;
+  progress: ParseProgress | null;
+  results: ImportFileResult[]; // Resultado de cada arquivo, exibido ao final
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+export const ImportProgressModal: React.FC<ImportProgressModalProps> = ({
+  isRunning,
+  progress,
+  results,
+  onCancel,
+  onClose,
+}) => {
+  const importedCount = results.filter(result => result.status === 'imported').length;
+  const failedCount = results.filter(result => result.status === 'failed').length;
+  const percent = progress && progress.bytesTotal > 0
+    ? Math.round((progress.bytesRead / progress.bytesTotal) * 100)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className={`bg-white rounded-lg shadow-xl w-full ${isRunning ? 'max-w-lg' : 'max-w-3xl'} max-h-[90vh] flex flex-col`}>
+        <header className="p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">
+            {isRunning ? 'Importando Arquivos' : 'Resultado da Importação'}
+          </h2>
+        </header>
+
+        <div className="p-6 flex-grow overflow-y-auto space-y-4">
+          {isRunning && !progress && (
+            <p className="text-sm text-gray-600">Preparando importação...</p>
+          )}
+
+          {isRunning && progress && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700 truncate">
+                <strong className="font-semibold">{progress.fileName}</strong>
+                {progress.fileCount > 1 && (
+                  <span className="text-gray-500"> ({progress.fileIndex + 1} de {progress.fileCount})</span>
+                )}
+              </p>
+              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full bg-indigo-600 transition-all ${progress.stage === 'parsing' ? 'animate-pulse' : ''}`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>{formatBytes(progress.bytesRead)} de {formatBytes(progress.bytesTotal)} lidos</span>
+                <span>
+                  {progress.stage === 'parsing'
+                    ? `${progress.rowsParsed.toLocaleString('pt-BR')} linhas processadas`
+                    : 'Lendo arquivo...'}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {!isRunning && results.length > 0 && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-700">
+                {importedCount} de {results.length} importado{results.length > 1 ? 's' : ''}
+                {failedCount > 0 && <span className="text-red-700 font-semibold"> — {failedCount} com erro</span>}
+              </p>
+              <ImportLogTable files={results} />
+            </div>
+          )}
+        </div>
+
+        <footer className="p-4 bg-gray-50 border-t text-right">
+          {isRunning ? (
+            <button
+              onClick={onCancel}
+              className="px-6 py-2 bg-gray-300 text-gray-700 font-semibold rounded-md hover:bg-gray-400 transition"
+            >
+              Cancelar
+            </button>
+          ) : (
+            <button
+              onClick={onClose}
+              className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition"
+            >
+              Fechar
+            </button>
+          )}
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useState, useMemo } from 'react';
+import type { Row } from '../types';
+import { findDuplicateKeys } from '../utils/rowMerge';
+
+interface KeyColumnsModalProps {
+  headers: string[];
+  rows: Row[];
+  keyColumns: string[];
+  onSave: (keyColumns: string[]) => void;
+  onCancel: () => void;
+}
+
+// Exemplos de chaves repetidas mostrados no aviso
+const DUPLICATE_EXAMPLES = 5;
+
+/**
+ * Escolha das colunas que identificam um registro (ex.: "RA", ou "Código
+ * Oferta" + "Turma"). Nas mesclagens, a linha com a mesma chave é atualizada.
+ */
+export const KeyColumnsModal: React.FC<KeyColumnsModalProps> = ({ headers, rows, keyColumns, onSave, onCancel }) => {
+  const [selected, setSelected] = useState<string[]>(keyColumns);
+
+  const duplicates = useMemo(
+    () => (selected.length > 0 ? findDuplicateKeys(rows, selected) : new Map<string, number>()),
+    [rows, selected]
+  );
+
+  // Mantém a ordem das colunas na planilha
+  const toggleColumn = (header: string) => {
+    setSelected(prev =>
+      prev.includes(header) ? prev.filter(column => column !== header) : headers.filter(h => h === header || prev.includes(h))
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">Colunas-Chave</h2>
+          <p className="text-sm text-gray-500">
+            Ao atualizar a planilha, a linha com a mesma chave é atualizada em vez de entrar como nova.
+          </p>
+        </header>
+
+        <div className="p-6 flex-grow overflow-y-auto space-y-4">
+          <div className="space-y-1">
+            {headers.map(header => (
+              <label key={header} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input type="checkbox" checked={selected.includes(header)} onChange={() => toggleColumn(header)} />
+                <span>{header}</span>
+              </label>
+            ))}
+          </div>
+
+          {selected.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">
+              Sem colunas-chave, só linhas idênticas são reconhecidas nas mesclagens.
+            </p>
+          ) : duplicates.size > 0 ? (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-900">
+              <p className="font-semibold">{duplicates.size} chave(s) aparecem em mais de uma linha.</p>
+              <p>Nas mesclagens, só a primeira linha de cada uma é atualizada.</p>
+              <ul className="mt-1 list-disc list-inside">
+                {Array.from(duplicates).slice(0, DUPLICATE_EXAMPLES).map(([id, count]) => (
+                  <li key={id} className="truncate">{id} ({count} linhas)</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-sm text-green-700">Cada linha da planilha tem uma chave diferente.</p>
+          )}
+        </div>
+
+        <footer className="p-4 bg-gray-50 border-t flex justify-end space-x-2">
+          <button
+            onClick={onCancel}
+            className="px-6 py-2 bg-gray-300 text-gray-700 font-semibold rounded-md hover:bg-gray-400 transition"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(selected)}
+            className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition"
+          >
+            Salvar
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,40 @@
-import React from 'react';
+import React, { useState } from 'react';
 import type { SheetMetadata } from '../types';
+import { ClipboardIcon, DatabaseIcon, ArchiveBoxIcon, TrashIcon } from './icons';
+import { describeSheetClassification } from '../utils/sheetMetadata';
+import { getTrashPurgeDate } from '../utils/trash';
 
 interface MainMenuProps {
   availableSheets: SheetMetadata[];
   onSelectSheet: (sheetKey: string) => void;
   onLoadNewFile: () => void;
+  onPasteData: () => void;
+  onOpenStorage: () => void;
+  onOpenBackup: () => void;
+  trashedSheets: SheetMetadata[]; // Mais recentes primeiro
+  trashRetentionDays: number;
+  onRestoreFromTrash: (sheetKey: string) => void;
+  onDeleteFromTrash: (sheetKey: string) => void;
+  onEmptyTrash: () => void;
+  onTrashRetentionChange: (days: number) => void;
 }
 
 export const MainMenu: React.FC<MainMenuProps> = ({
   availableSheets,
   onSelectSheet,
   onLoadNewFile,
+  onPasteData,
+  onOpenStorage,
+  onOpenBackup,
+  trashedSheets,
+  trashRetentionDays,
+  onRestoreFromTrash,
+  onDeleteFromTrash,
+  onEmptyTrash,
+  onTrashRetentionChange,
 }) => {
+  const [showTrash, setShowTrash] = useState(false);
+
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
       <div className="max-w-4xl w-full bg-white rounded-lg shadow-lg overflow-hidden">
@@ -38,9 +61,22 @@ export const MainMenu: React.FC<MainMenuProps> = ({
                         <h3 className="text-base font-semibold text-gray-800">
                           {sheet.name}
                         </h3>
+                        {sheet.description && (
+                          <p className="mt-1 text-sm text-gray-600 line-clamp-2">{sheet.description}</p>
+                        )}
                         <div className="mt-1 flex items-center space-x-3 text-sm text-gray-600">
+                          {(sheet.type || sheet.period) && <span>{describeSheetClassification(sheet)}</span>}
                           <span>Atualizado: {new Date(sheet.updatedAt).toLocaleDateString('pt-BR')}</span>
                         </div>
+                        {sheet.tags && sheet.tags.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {sheet.tags.map(tag => (
+                              <span key={tag} className="px-2 py-0.5 bg-indigo-50 text-indigo-700 text-xs rounded-full">
+                                {tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       <svg className="w-5 h-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
@@ -60,6 +96,66 @@ export const MainMenu: React.FC<MainMenuProps> = ({
             </div>
           )}
 
+          {trashedSheets.length > 0 && (
+            <div className="mb-6">
+              <button
+                onClick={() => setShowTrash(!showTrash)}
+                className="flex items-center space-x-2 text-sm font-semibold text-gray-600 hover:text-gray-800"
+              >
+                <TrashIcon className="w-4 h-4" />
+                <span>Lixeira ({trashedSheets.length})</span>
+                <span className="text-gray-400">{showTrash ? '▲' : '▼'}</span>
+              </button>
+
+              {showTrash && (
+                <div className="mt-3 border rounded-md p-3 bg-gray-50">
+                  <div className="flex items-center justify-between mb-3 text-sm text-gray-700">
+                    <label className="flex items-center space-x-2">
+                      <span>Excluir definitivamente após</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={trashRetentionDays}
+                        onChange={e => onTrashRetentionChange(Number(e.target.value))}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                      <span>dias</span>
+                    </label>
+                    <button onClick={onEmptyTrash} className="font-semibold text-red-600 hover:text-red-800">
+                      Esvaziar lixeira
+                    </button>
+                  </div>
+
+                  <ul className="divide-y divide-gray-200">
+                    {trashedSheets.map(sheet => (
+                      <li key={sheet.key} className="py-2 flex items-center justify-between">
+                        <div>
+                          <div className="text-sm font-medium text-gray-800">{sheet.name}</div>
+                          <div className="text-xs text-gray-500">
+                            Excluída em {new Date(sheet.deletedAt ?? '').toLocaleDateString('pt-BR')} • some em{' '}
+                            {getTrashPurgeDate(sheet, trashRetentionDays).toLocaleDateString('pt-BR')}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-3 text-sm whitespace-nowrap">
+                          <button onClick={() => onRestoreFromTrash(sheet.key)} className="text-indigo-600 hover:text-indigo-800">
+                            Restaurar
+                          </button>
+                          <button
+                            onClick={() => onDeleteFromTrash(sheet.key)}
+                            className="text-red-600 hover:text-red-800"
+                            title="Excluir definitivamente"
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="border-t pt-4 mt-4">
             <button
               onClick={onLoadNewFile}
@@ -70,6 +166,27 @@ export const MainMenu: React.FC<MainMenuProps> = ({
               </svg>
               <span>Carregar Novos Dados</span>
             </button>
+            <button
+              onClick={onPasteData}
+              className="w-full mt-2 px-6 py-3 bg-white text-indigo-600 font-semibold border border-indigo-600 rounded-md hover:bg-indigo-50 transition flex items-center justify-center space-x-2"
+            >
+              <ClipboardIcon />
+              <span>Colar Dados</span>
+            </button>
+            <button
+              onClick={onOpenStorage}
+              className="w-full mt-2 px-6 py-2 text-sm text-gray-600 rounded-md hover:bg-gray-100 transition flex items-center justify-center space-x-2"
+            >
+              <DatabaseIcon />
+              <span>Armazenamento</span>
+            </button>
+            <button
+              onClick={onOpenBackup}
+              className="w-full mt-2 px-6 py-2 text-sm text-gray-600 rounded-md hover:bg-gray-100 transition flex items-center justify-center space-x-2"
+            >
+              <ArchiveBoxIcon />
+              <span>Backup e Restauração</span>
+            </button>
           </div>
         </div>
       </div>
@@ -0,0 +1,279 @@
+import React, { useState, useMemo } from 'react';
+import type { MergeStrategy, Row } from '../types';
+import { DEFAULT_MERGE_STRATEGY, MERGE_STRATEGIES, planMerge } from '../utils/rowMerge';
+import type { MergeEntryKind, MergePlan } from '../utils/rowMerge';
+
+interface MergePreviewModalProps {
+  sheetName: string;
+  existingRows: Row[];
+  incomingRows: Row[];
+  headers: string[];
+  keyColumns: string[];
+  schemaChange?: string; // Colunas novas ou renomeadas que a planilha vai receber
+  initialStrategy?: MergeStrategy; // Última estratégia usada na planilha
+  onConfirm: (plan: MergePlan, rejectedEntries: Set<number>) => void;
+  onCancel: () => void;
+}
+
+type EntryFilter = 'all' | MergeEntryKind;
+
+const FILTER_LABELS: Record<EntryFilter, string> = {
+  all: 'Todos',
+  new: 'Novos',
+  updated: 'Alterados',
+  unchanged: 'Sem alteração',
+  removed: 'Removidos',
+};
+
+const KIND_BADGES: Record<MergeEntryKind, string> = {
+  new: 'bg-green-100 text-green-800',
+  updated: 'bg-yellow-100 text-yellow-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+  removed: 'bg-red-100 text-red-800',
+};
+
+// Registros exibidos por vez; "Mostrar mais" acrescenta outro bloco
+const PAGE_SIZE = 200;
+
+const formatCell = (value: Row[string]) => (value === null || value === '' ? '(vazio)' : String(value));
+
+/**
+ * Simulação da mesclagem: registros novos, alterados (valor anterior → novo),
+ * sem alteração e removidos, conforme a estratégia escolhida, com aceite ou
+ * recusa por registro. Nada é gravado até confirmar.
+ */
+export const MergePreviewModal: React.FC<MergePreviewModalProps> = ({
+  sheetName,
+  existingRows,
+  incomingRows,
+  headers,
+  keyColumns,
+  schemaChange,
+  initialStrategy = DEFAULT_MERGE_STRATEGY,
+  onConfirm,
+  onCancel,
+}) => {
+  const [strategy, setStrategy] = useState<MergeStrategy>(initialStrategy);
+  const [filter, setFilter] = useState<EntryFilter>('all');
+  const [rejected, setRejected] = useState<Set<number>>(() => new Set());
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const plan = useMemo(
+    () => planMerge(existingRows, incomingRows, headers, keyColumns, strategy),
+    [existingRows, incomingRows, headers, keyColumns, strategy]
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<EntryFilter, number> = { all: plan.entries.length, new: 0, updated: 0, unchanged: 0, removed: 0 };
+    plan.entries.forEach(entry => { result[entry.kind]++; });
+    return result;
+  }, [plan]);
+
+  // Índices no plano, para o aceite continuar valendo ao trocar o filtro
+  const filteredIndexes = useMemo(
+    () => plan.entries.map((entry, index) => (filter === 'all' || entry.kind === filter ? index : -1)).filter(index => index >= 0),
+    [plan, filter]
+  );
+
+  const acceptedCounts = useMemo(() => {
+    let added = 0;
+    let updated = 0;
+    let removed = 0;
+    plan.entries.forEach((entry, index) => {
+      if (rejected.has(index)) return;
+      if (entry.kind === 'new') added++;
+      if (entry.kind === 'updated') updated++;
+      if (entry.kind === 'removed') removed++;
+    });
+    return { added, updated, removed };
+  }, [plan, rejected]);
+
+  // Os índices mudam com a estratégia: as escolhas anteriores não valem mais
+  const handleStrategyChange = (value: MergeStrategy) => {
+    setStrategy(value);
+    setRejected(new Set());
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const toggleEntry = (index: number) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  // Aceitar ou recusar todos os registros do filtro atual
+  const setFilteredAccepted = (accepted: boolean) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      filteredIndexes.forEach(index => {
+        if (plan.entries[index].kind === 'unchanged') return;
+        if (accepted) {
+          next.delete(index);
+        } else {
+          next.add(index);
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleFilterChange = (value: EntryFilter) => {
+    setFilter(value);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const totalAccepted = acceptedCounts.added + acceptedCounts.updated + acceptedCounts.removed;
+  const strategyInfo = MERGE_STRATEGIES.find(option => option.value === strategy);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">Pré-visualização da Mesclagem</h2>
+          <p className="text-sm text-gray-500">
+            {sheetName} —{' '}
+            {plan.keyColumns.length > 0
+              ? `registros identificados por: ${plan.keyColumns.join(' + ')}`
+              : 'sem colunas-chave, só linhas idênticas são reconhecidas ("Opções" > "Colunas-Chave")'}
+          </p>
+        </header>
+
+        <div className="px-4 pt-4">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <span className="font-semibold">Estratégia:</span>
+            <select
+              value={strategy}
+              onChange={e => handleStrategyChange(e.target.value as MergeStrategy)}
+              className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {MERGE_STRATEGIES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <p className="mt-1 text-xs text-gray-500">{strategyInfo?.description}</p>
+          {schemaChange && (
+            <p className="mt-2 p-2 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-900">
+              Mudança nas colunas ao aplicar: {schemaChange}.
+            </p>
+          )}
+          {acceptedCounts.removed > 0 && (
+            <p className="mt-2 p-2 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+              {acceptedCounts.removed.toLocaleString('pt-BR')} registro(s) serão removidos da planilha. Confira em "Removidos" antes de aplicar.
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-b flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(FILTER_LABELS) as EntryFilter[]).map(value => (
+              <button
+                key={value}
+                onClick={() => handleFilterChange(value)}
+                className={`px-3 py-1 text-sm rounded-full border transition ${
+                  filter === value ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+                }`}
+              >
+                {FILTER_LABELS[value]} ({counts[value].toLocaleString('pt-BR')})
+              </button>
+            ))}
+          </div>
+          {filter !== 'unchanged' && (
+            <div className="flex space-x-3 text-sm">
+              <button onClick={() => setFilteredAccepted(true)} className="text-indigo-600 hover:text-indigo-800">
+                Aceitar todos
+              </button>
+              <button onClick={() => setFilteredAccepted(false)} className="text-gray-600 hover:text-gray-800">
+                Recusar todos
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 flex-grow overflow-y-auto">
+          {filteredIndexes.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">Nenhum registro.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {filteredIndexes.slice(0, visibleCount).map(index => {
+                const entry = plan.entries[index];
+                const isAccepted = !rejected.has(index);
+                return (
+                  <li key={index} className={`py-2 flex items-start space-x-3 ${isAccepted ? '' : 'opacity-50'}`}>
+                    {entry.kind === 'unchanged' ? (
+                      <span className="w-4" />
+                    ) : (
+                      <input
+                        type="checkbox"
+                        checked={isAccepted}
+                        onChange={() => toggleEntry(index)}
+                        className="mt-1"
+                        title={isAccepted ? 'Recusar este registro' : 'Aceitar este registro'}
+                      />
+                    )}
+                    <div className="min-w-0 flex-grow text-sm">
+                      <div className="flex items-center space-x-2">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${KIND_BADGES[entry.kind]}`}>
+                          {FILTER_LABELS[entry.kind]}
+                        </span>
+                        <span className="font-medium text-gray-800 truncate">{entry.id || '(chave em branco)'}</span>
+                      </div>
+                      {entry.changes.length > 0 && (
+                        <ul className="mt-1 ml-2 space-y-0.5">
+                          {entry.changes.map(change => (
+                            <li key={change.column} className="truncate text-gray-600">
+                              {change.column}:{' '}
+                              <span className="px-1 bg-red-50 text-red-700 line-through">{formatCell(change.before)}</span>
+                              {' → '}
+                              <span className="px-1 bg-green-50 text-green-800">{formatCell(change.after)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {filteredIndexes.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+              className="mt-3 text-sm text-indigo-600 hover:text-indigo-800"
+            >
+              Mostrar mais ({(filteredIndexes.length - visibleCount).toLocaleString('pt-BR')} restantes)
+            </button>
+          )}
+        </div>
+
+        <footer className="p-4 bg-gray-50 border-t flex justify-between items-center">
+          <span className="text-sm text-gray-600">
+            {acceptedCounts.added.toLocaleString('pt-BR')} novo(s), {acceptedCounts.updated.toLocaleString('pt-BR')} alterado(s) e{' '}
+            {acceptedCounts.removed.toLocaleString('pt-BR')} removido(s) serão gravados.
+          </span>
+          <div className="flex space-x-2">
+            <button
+              onClick={onCancel}
+              className="px-6 py-2 bg-gray-300 text-gray-700 font-semibold rounded-md hover:bg-gray-400 transition"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => onConfirm(plan, rejected)}
+              disabled={totalAccepted === 0 && !schemaChange}
+              className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              Aplicar Mesclagem
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
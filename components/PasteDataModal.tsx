@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { parseClipboardContent } from '../utils/clipboard';
+import type { ParsedWorksheet } from '../utils/workbookParser';
+import { ClipboardIcon } from './icons';
+
+interface PasteDataModalProps {
+  onPasted: (sheet: ParsedWorksheet) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Campo para colar com Ctrl+V quando o navegador não libera a leitura
+ * direta da área de transferência (permissão negada ou API ausente).
+ */
+export const PasteDataModal: React.FC<PasteDataModalProps> = ({ onPasted, onCancel }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const html = e.clipboardData.getData('text/html') || null;
+    const text = e.clipboardData.getData('text/plain') || null;
+
+    try {
+      onPasted(parseClipboardContent(html, text));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Não foi possível interpretar os dados colados.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg flex flex-col">
+        <header className="p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">Colar Dados</h2>
+        </header>
+
+        <div className="p-6 space-y-3">
+          <p className="text-sm text-gray-600">
+            Copie uma tabela do SIAA, de um e-mail ou de outra planilha e pressione <strong>Ctrl+V</strong> na área abaixo.
+          </p>
+          <div
+            tabIndex={0}
+            autoFocus
+            onPaste={handlePaste}
+            className="h-40 border-2 border-dashed border-gray-300 rounded-md flex flex-col items-center justify-center text-gray-500 focus:outline-none focus:border-indigo-500 focus:text-indigo-600 cursor-text"
+          >
+            <ClipboardIcon className="w-10 h-10 mb-2" />
+            <span className="text-sm">Clique aqui e cole (Ctrl+V)</span>
+          </div>
+          {error && (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2">{error}</p>
+          )}
+        </div>
+
+        <footer className="p-4 bg-gray-50 border-t text-right">
+          <button
+            onClick={onCancel}
+            className="px-6 py-2 bg-gray-300 text-gray-700 font-semibold rounded-md hover:bg-gray-400 transition"
+          >
+            Cancelar
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
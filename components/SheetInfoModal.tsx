@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import type { SheetMetadata } from '../types';
+import { PREDEFINED_SHEET_TYPES, parseTags } from '../utils/sheetMetadata';
+
+interface SheetInfoModalProps {
+  metadata: SheetMetadata;
+  onSave: (metadata: SheetMetadata) => void;
+  onCancel: () => void;
+}
+
+const CURRENT_YEAR = new Date().getFullYear();
+
+/**
+ * Edição das informações de uma planilha. O identificador (chave) não muda.
+ */
+export const SheetInfoModal: React.FC<SheetInfoModalProps> = ({ metadata, onSave, onCancel }) => {
+  const isCustomType = !!metadata.type && !PREDEFINED_SHEET_TYPES.includes(metadata.type);
+
+  const [name, setName] = useState(metadata.name);
+  const [description, setDescription] = useState(metadata.description ?? '');
+  const [tagsText, setTagsText] = useState((metadata.tags ?? []).join(', '));
+  const [selectedType, setSelectedType] = useState(isCustomType ? 'Outro' : metadata.type ?? '');
+  const [customType, setCustomType] = useState(isCustomType ? metadata.type ?? '' : '');
+  const [hasPeriod, setHasPeriod] = useState(!!metadata.period);
+  const [year, setYear] = useState(metadata.period?.year ?? CURRENT_YEAR);
+  const [semester, setSemester] = useState<1 | 2>(metadata.period?.semester ?? 1);
+
+  const handleSave = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      alert('Informe um nome para a planilha.');
+      return;
+    }
+    if (hasPeriod && (!Number.isInteger(year) || year < 1900 || year > 2100)) {
+      alert('Informe um ano válido para o período.');
+      return;
+    }
+
+    const type = selectedType === 'Outro' ? customType.trim() || 'Outro' : selectedType;
+    const trimmedDescription = description.trim();
+    const tags = parseTags(tagsText);
+    onSave({
+      ...metadata,
+      name: trimmedName,
+      description: trimmedDescription || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      type: type || undefined,
+      period: hasPeriod ? { year, semester } : undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">Informações da Planilha</h2>
+          <p className="text-sm text-gray-500">Identificador: {metadata.key}</p>
+        </header>
+
+        <div className="p-6 flex-grow overflow-y-auto space-y-4">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-1">Nome</label>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-1">Descrição</label>
+            <textarea
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-1">Etiquetas</label>
+            <input
+              type="text"
+              value={tagsText}
+              onChange={e => setTagsText(e.target.value)}
+              placeholder="Separadas por vírgula, ex.: campus centro, noturno"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-1">Tipo</label>
+            <select
+              value={selectedType}
+              onChange={e => setSelectedType(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">Sem tipo</option>
+              {PREDEFINED_SHEET_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+              <option value="Outro">Outro (personalizado)</option>
+            </select>
+            {selectedType === 'Outro' && (
+              <input
+                type="text"
+                value={customType}
+                onChange={e => setCustomType(e.target.value)}
+                placeholder="Digite o nome do tipo"
+                className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            )}
+          </div>
+
+          <div>
+            <label className="flex items-center space-x-2 text-sm font-semibold text-gray-700 mb-1">
+              <input type="checkbox" checked={hasPeriod} onChange={e => setHasPeriod(e.target.checked)} />
+              <span>Período letivo</span>
+            </label>
+            {hasPeriod && (
+              <div className="grid grid-cols-2 gap-4">
+                <input
+                  type="number"
+                  value={year}
+                  onChange={e => setYear(Number(e.target.value))}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <select
+                  value={semester}
+                  onChange={e => setSemester(Number(e.target.value) as 1 | 2)}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value={1}>1º Semestre</option>
+                  <option value={2}>2º Semestre</option>
+                </select>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <footer className="p-4 bg-gray-50 border-t flex justify-end space-x-2">
+          <button
+            onClick={onCancel}
+            className="px-6 py-2 bg-gray-300 text-gray-700 font-semibold rounded-md hover:bg-gray-400 transition"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition"
+          >
+            Salvar
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -1,38 +1,28 @@
 import React, { useState } from 'react';
 import type { SheetMetadata, SheetPeriod } from '../types';
+import { PREDEFINED_SHEET_TYPES, buildSheetKey, formatSheetPeriod } from '../utils/sheetMetadata';
 
 interface SheetSelectionModalProps {
   existingSheets: SheetMetadata[];
-  newDataHeaders: string[];
   onSelectNew: (type: string, period: SheetPeriod) => void;
-  onSelectExisting: (sheetKey: string) => void;
   onCancel: () => void;
-  forceNewSheetOnly?: boolean;
 }
 
-const PREDEFINED_TYPES = ['Ofertas', 'Alunos'];
 const CURRENT_YEAR = new Date().getFullYear();
 const YEARS = [CURRENT_YEAR - 1, CURRENT_YEAR, CURRENT_YEAR + 1, CURRENT_YEAR + 2];
 
 export const SheetSelectionModal: React.FC<SheetSelectionModalProps> = ({
   existingSheets,
-  newDataHeaders,
   onSelectNew,
-  onSelectExisting,
   onCancel,
-  forceNewSheetOnly = false,
 }) => {
   const [selectedType, setSelectedType] = useState<string>('Ofertas');
   const [customType, setCustomType] = useState<string>('');
   const [selectedYear, setSelectedYear] = useState<number>(CURRENT_YEAR);
   const [selectedSemester, setSelectedSemester] = useState<1 | 2>(1);
 
-  const generateSheetKey = (type: string, period: SheetPeriod): string => {
-    return `${type}_${period.year}_${period.semester}`;
-  };
-
   const checkSheetExists = (type: string, period: SheetPeriod): SheetMetadata | undefined => {
-    const key = generateSheetKey(type, period);
+    const key = buildSheetKey(type, period);
     return existingSheets.find(s => s.key === key);
   };
 
@@ -43,16 +33,16 @@ export const SheetSelectionModal: React.FC<SheetSelectionModalProps> = ({
       return;
     }
     
-    const period = { year: selectedYear, semester: selectedSemester };
+    const period: SheetPeriod = { year: selectedYear, semester: selectedSemester };
     const existingSheet = checkSheetExists(finalType, period);
     
     if (existingSheet) {
       alert(
-        `Já existe uma planilha "${existingSheet.type}" para ${existingSheet.period.year}/${existingSheet.period.semester}.\n\n` +
+        `Já existe uma planilha "${finalType}" para ${formatSheetPeriod(period)}.\n\n` +
         `Para modificar os dados dessa planilha:\n` +
-        `1. Acesse a planilha "${existingSheet.type}" no menu principal\n` +
+        `1. Acesse a planilha "${existingSheet.name}" no menu principal\n` +
         `2. Use "Opções > Atualizar Esta Planilha" para adicionar/atualizar registros\n` +
-        `3. Ou use "Opções > Excluir Esta Planilha" para remover todos os dados`
+        `3. Ou use "Opções > Excluir Esta Planilha" e esvazie a lixeira para remover todos os dados`
       );
       return;
     }
@@ -76,7 +66,7 @@ export const SheetSelectionModal: React.FC<SheetSelectionModalProps> = ({
                 onChange={(e) => setSelectedType(e.target.value)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
               >
-                {PREDEFINED_TYPES.map(type => (
+                {PREDEFINED_SHEET_TYPES.map(type => (
                   <option key={type} value={type}>{type}</option>
                 ))}
                 <option value="Outro">Outro (personalizado)</option>
@@ -127,7 +117,7 @@ export const SheetSelectionModal: React.FC<SheetSelectionModalProps> = ({
             
             <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
               <p className="text-sm text-blue-800">
-                <strong>Identificador:</strong> {selectedType === 'Outro' ? (customType || '(vazio)') : selectedType}_{selectedYear}/{selectedSemester}
+                <strong>Identificador:</strong> {buildSheetKey(selectedType === 'Outro' ? (customType || '(vazio)') : selectedType, { year: selectedYear, semester: selectedSemester })}
               </p>
             </div>
           </div>
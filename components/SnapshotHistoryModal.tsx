@@ -0,0 +1,264 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { SnapshotInfo, StoredSheet } from '../types';
+import type { SheetStorage } from '../utils/sheetStorage';
+import { createSnapshot, loadSnapshotRetention, pruneSnapshots, saveSnapshotRetention, SNAPSHOT_REASON_LABELS } from '../utils/snapshots';
+import { TrashIcon } from './icons';
+
+interface SnapshotHistoryModalProps {
+  sheet: StoredSheet;
+  storage: SheetStorage;
+  existingIdentifiers: string[];
+  onRestore: (snapshot: StoredSheet) => void;
+  onFork: (snapshot: StoredSheet, name: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROW_LIMIT = 10;
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('pt-BR');
+
+/**
+ * Cópias guardadas da planilha, com pré-visualização, restauração e criação
+ * de uma nova planilha a partir de uma cópia.
+ */
+export const SnapshotHistoryModal: React.FC<SnapshotHistoryModalProps> = ({
+  sheet,
+  storage,
+  existingIdentifiers,
+  onRestore,
+  onFork,
+  onClose,
+}) => {
+  const sheetKey = sheet.metadata.key;
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedSheet, setSelectedSheet] = useState<StoredSheet | null>(null);
+  const [retention, setRetention] = useState(() => loadSnapshotRetention());
+  const [forkName, setForkName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setSnapshots(await storage.listSnapshots(sheetKey));
+  }, [storage, sheetKey]);
+
+  useEffect(() => {
+    refresh().catch(error => {
+      console.error('Error loading snapshots:', error);
+      setSnapshots([]);
+    });
+  }, [refresh]);
+
+  // Carregar os dados da cópia selecionada para a pré-visualização
+  useEffect(() => {
+    if (!selectedId) {
+      setSelectedSheet(null);
+      return;
+    }
+    let cancelled = false;
+    storage.loadSnapshot(selectedId).then(loaded => {
+      if (cancelled) return;
+      setSelectedSheet(loaded);
+      setForkName(loaded ? `${loaded.metadata.name} (cópia)` : '');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, selectedId]);
+
+  const handleCreateSnapshot = async () => {
+    setIsBusy(true);
+    try {
+      const info = await createSnapshot(storage, sheet, 'manual');
+      await refresh();
+      setSelectedId(info.id);
+    } catch (error) {
+      console.error('Error creating snapshot:', error);
+      alert('Erro ao criar a cópia. O armazenamento do navegador pode estar cheio.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDeleteSnapshot = async (snapshotId: string) => {
+    if (!confirm('Excluir esta cópia?')) return;
+    await storage.deleteSnapshot(snapshotId);
+    if (selectedId === snapshotId) setSelectedId(null);
+    await refresh();
+  };
+
+  const handleRetentionChange = async (value: number) => {
+    if (!Number.isInteger(value) || value < 1) return;
+    setRetention(value);
+    saveSnapshotRetention(value);
+    await pruneSnapshots(storage, sheetKey, value);
+    await refresh();
+  };
+
+  const handleFork = () => {
+    if (!selectedSheet) return;
+    const name = forkName.trim();
+    if (!name) {
+      alert('Informe um nome para a nova planilha.');
+      return;
+    }
+    if (existingIdentifiers.includes(name)) {
+      alert(`Já existe uma planilha chamada "${name}".`);
+      return;
+    }
+    onFork(selectedSheet, name);
+  };
+
+  const selectedInfo = snapshots?.find(snapshot => snapshot.id === selectedId);
+  const previewHeaders = selectedSheet?.data.headers ?? [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">Versões da Planilha</h2>
+          <p className="text-sm text-gray-500">{sheet.metadata.name}</p>
+        </header>
+
+        <div className="p-6 flex-grow overflow-y-auto space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <button
+              onClick={handleCreateSnapshot}
+              disabled={isBusy}
+              className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              Criar cópia agora
+            </button>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>Manter as últimas</span>
+              <input
+                type="number"
+                min={1}
+                value={retention}
+                onChange={e => handleRetentionChange(Number(e.target.value))}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+              />
+              <span>cópias por planilha</span>
+            </label>
+          </div>
+
+          {snapshots === null ? (
+            <p className="text-sm text-gray-500">Carregando...</p>
+          ) : snapshots.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">
+              Nenhuma cópia guardada. Uma cópia é criada automaticamente antes de cada mesclagem.
+            </p>
+          ) : (
+            <div className="border rounded-md overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-100 text-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold">Data</th>
+                    <th className="px-3 py-2 text-left font-semibold">Motivo</th>
+                    <th className="px-3 py-2 text-left font-semibold">Arquivos</th>
+                    <th className="px-3 py-2 text-right font-semibold">Linhas</th>
+                    <th className="px-3 py-2 text-right font-semibold">Colunas</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {snapshots.map(snapshot => (
+                    <tr
+                      key={snapshot.id}
+                      onClick={() => setSelectedId(snapshot.id)}
+                      className={`cursor-pointer ${snapshot.id === selectedId ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                    >
+                      <td className="px-3 py-2 whitespace-nowrap">{formatDateTime(snapshot.createdAt)}</td>
+                      <td className="px-3 py-2">{SNAPSHOT_REASON_LABELS[snapshot.reason]}</td>
+                      <td className="px-3 py-2 text-gray-600">{snapshot.sourceFiles.join(', ') || '—'}</td>
+                      <td className="px-3 py-2 text-right">{snapshot.rowCount.toLocaleString('pt-BR')}</td>
+                      <td className="px-3 py-2 text-right">{snapshot.columnCount}</td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={e => {
+                            e.stopPropagation();
+                            handleDeleteSnapshot(snapshot.id);
+                          }}
+                          className="text-red-600 hover:text-red-800"
+                          title="Excluir cópia"
+                        >
+                          <TrashIcon />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {selectedInfo && (
+            <div className="space-y-3">
+              <h3 className="font-semibold text-gray-800">Cópia de {formatDateTime(selectedInfo.createdAt)}</h3>
+              {!selectedSheet ? (
+                <p className="text-sm text-gray-500">Carregando dados...</p>
+              ) : (
+                <>
+                  <div className="border rounded-md overflow-x-auto">
+                    <table className="min-w-full text-xs">
+                      <thead className="bg-gray-100 text-gray-700">
+                        <tr>
+                          {previewHeaders.map(header => (
+                            <th key={header} className="px-2 py-1 text-left font-semibold whitespace-nowrap">{header}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {selectedSheet.data.rows.slice(0, PREVIEW_ROW_LIMIT).map((row, rowIndex) => (
+                          <tr key={rowIndex}>
+                            {previewHeaders.map(header => (
+                              <td key={header} className="px-2 py-1 whitespace-nowrap text-gray-700">{String(row[header] ?? '')}</td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {selectedSheet.data.rows.length > PREVIEW_ROW_LIMIT && (
+                    <p className="text-xs text-gray-500">
+                      Mostrando {PREVIEW_ROW_LIMIT} de {selectedSheet.data.rows.length.toLocaleString('pt-BR')} linhas.
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-3">
+                    <button
+                      onClick={() => onRestore(selectedSheet)}
+                      className="px-4 py-2 bg-amber-600 text-white font-semibold rounded-md hover:bg-amber-700 transition"
+                    >
+                      Restaurar esta versão
+                    </button>
+                    <input
+                      type="text"
+                      value={forkName}
+                      onChange={e => setForkName(e.target.value)}
+                      placeholder="Nome da nova planilha"
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                    <button
+                      onClick={handleFork}
+                      className="px-4 py-2 bg-white border border-indigo-600 text-indigo-600 font-semibold rounded-md hover:bg-indigo-50 transition"
+                    >
+                      Criar nova planilha
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <footer className="p-4 bg-gray-50 border-t text-right">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition"
+          >
+            Fechar
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { StoredSheet } from '../types';
+import type { StorageBackendKind, QuarantinedSheet } from '../utils/sheetStorage';
+import { estimateSheetSize, formatBytes, getStorageEstimate } from '../utils/storageUsage';
+import type { StorageEstimate } from '../utils/storageUsage';
+import { TrashIcon } from './icons';
+
+interface StorageModalProps {
+  sheets: StoredSheet[];
+  backendKind: StorageBackendKind;
+  warning?: string | null; // Falha de gravação que levou à abertura da tela
+  quarantined: QuarantinedSheet[];
+  onDelete: (sheetKey: string) => void;
+  onToggleArchive: (sheetKey: string) => void;
+  onCompact: (sheetKey: string) => void;
+  onDownloadQuarantined: (entry: QuarantinedSheet) => void;
+  onDeleteQuarantined: (sheetKey: string) => void;
+  onClose: () => void;
+}
+
+const BACKEND_LABELS: Record<StorageBackendKind, string> = {
+  indexeddb: 'IndexedDB',
+  localstorage: 'localStorage (alternativa)',
+};
+
+/**
+ * Espaço ocupado por planilha e uso total do armazenamento do navegador.
+ */
+export const StorageModal: React.FC<StorageModalProps> = ({
+  sheets,
+  backendKind,
+  warning,
+  quarantined,
+  onDelete,
+  onToggleArchive,
+  onCompact,
+  onDownloadQuarantined,
+  onDeleteQuarantined,
+  onClose,
+}) => {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+
+  const sizedSheets = useMemo(
+    () => sheets
+      .map(sheet => ({ sheet, size: estimateSheetSize(sheet) }))
+      .sort((a, b) => b.size - a.size),
+    [sheets]
+  );
+  const totalSize = sizedSheets.reduce((total, { size }) => total + size, 0);
+
+  // Atualizar o uso total sempre que as planilhas mudarem
+  useEffect(() => {
+    let cancelled = false;
+    getStorageEstimate(backendKind).then(result => {
+      if (!cancelled) setEstimate(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [backendKind, sheets]);
+
+  const usagePercent = estimate ? Math.min(100, Math.round((estimate.usage / estimate.quota) * 100)) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">Armazenamento</h2>
+          <p className="text-sm text-gray-500">Dados guardados em {BACKEND_LABELS[backendKind]}</p>
+        </header>
+
+        <div className="p-6 flex-grow overflow-y-auto space-y-6">
+          {warning && (
+            <div className="text-sm text-red-800 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+              {warning} Exclua, arquive ou compacte planilhas para liberar espaço.
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {estimate ? (
+              <>
+                <div className="flex justify-between text-sm text-gray-700">
+                  <span>{formatBytes(estimate.usage)} em uso de {formatBytes(estimate.quota)} disponíveis</span>
+                  <span className="font-semibold">{usagePercent}%</span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${usagePercent >= 90 ? 'bg-red-600' : usagePercent >= 70 ? 'bg-amber-500' : 'bg-indigo-600'}`}
+                    style={{ width: `${usagePercent}%` }}
+                  />
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">O navegador não informa a cota de armazenamento.</p>
+            )}
+            <p className="text-xs text-gray-500">
+              As planilhas somam aproximadamente {formatBytes(totalSize)} (tamanho dos dados sem compactação).
+            </p>
+          </div>
+
+          {sizedSheets.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">Nenhuma planilha salva.</p>
+          ) : (
+            <div className="border rounded-md overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-100 text-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold">Planilha</th>
+                    <th className="px-3 py-2 text-right font-semibold">Tamanho</th>
+                    <th className="px-3 py-2 text-right font-semibold">Linhas</th>
+                    <th className="px-3 py-2 text-right font-semibold">Colunas</th>
+                    <th className="px-3 py-2 text-right font-semibold">Ações</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {sizedSheets.map(({ sheet, size }) => (
+                    <tr key={sheet.metadata.key} className={sheet.metadata.archived ? 'bg-gray-50 text-gray-500' : ''}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-800">{sheet.metadata.name}</div>
+                        {sheet.metadata.archived && (
+                          <span className="text-xs text-gray-500">
+                            Arquivada{backendKind === 'indexeddb' ? ' (compactada)' : ''}
+                          </span>
+                        )}
+                        {sheet.metadata.deletedAt && (
+                          <span className="text-xs text-red-600 ml-2">Na lixeira</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">{formatBytes(size)}</td>
+                      <td className="px-3 py-2 text-right">{sheet.data.rows.length.toLocaleString('pt-BR')}</td>
+                      <td className="px-3 py-2 text-right">{sheet.data.headers.length}</td>
+                      <td className="px-3 py-2">
+                        <div className="flex justify-end items-center space-x-3 whitespace-nowrap">
+                          <button
+                            onClick={() => onToggleArchive(sheet.metadata.key)}
+                            className="text-indigo-600 hover:text-indigo-800"
+                          >
+                            {sheet.metadata.archived ? 'Restaurar' : 'Arquivar'}
+                          </button>
+                          <button
+                            onClick={() => onCompact(sheet.metadata.key)}
+                            className="text-indigo-600 hover:text-indigo-800"
+                            title="Remover espaços extras e colunas/linhas vazias"
+                          >
+                            Compactar
+                          </button>
+                          <button
+                            onClick={() => onDelete(sheet.metadata.key)}
+                            className="text-red-600 hover:text-red-800"
+                            title="Excluir planilha"
+                          >
+                            <TrashIcon />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {quarantined.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-semibold text-gray-800">Quarentena</h3>
+              <p className="text-sm text-gray-600">
+                Registros que não puderam ser convertidos para o formato atual. Baixe-os para recuperar os dados manualmente.
+              </p>
+              <div className="border border-amber-200 rounded-md divide-y divide-amber-100">
+                {quarantined.map(entry => (
+                  <div key={entry.key} className="flex items-start justify-between px-3 py-2 text-sm">
+                    <div>
+                      <div className="font-medium text-gray-800">{entry.key}</div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(entry.quarantinedAt).toLocaleString('pt-BR')} — {entry.reason}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3 whitespace-nowrap ml-4">
+                      <button
+                        onClick={() => onDownloadQuarantined(entry)}
+                        className="text-indigo-600 hover:text-indigo-800"
+                      >
+                        Baixar
+                      </button>
+                      <button
+                        onClick={() => onDeleteQuarantined(entry.key)}
+                        className="text-red-600 hover:text-red-800"
+                        title="Excluir registro"
+                      >
+                        <TrashIcon />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <footer className="p-4 bg-gray-50 border-t text-right">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition"
+          >
+            Fechar
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface SyncNoticeProps {
+  message: string;
+  onDismiss: () => void;
+}
+
+/**
+ * Faixa no topo da tela avisando que outra aba alterou a planilha aberta.
+ */
+export const SyncNotice: React.FC<SyncNoticeProps> = ({ message, onDismiss }) => (
+  <div className="fixed top-0 inset-x-0 z-50 flex items-center justify-center space-x-4 bg-amber-100 border-b border-amber-300 text-amber-900 text-sm px-4 py-2" role="alert">
+    <span>{message}</span>
+    <button onClick={onDismiss} className="font-semibold hover:text-amber-700">
+      Entendi
+    </button>
+  </div>
+);
@@ -0,0 +1,32 @@
+import React, { useEffect } from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+// Tempo até o aviso sumir sozinho; Ctrl+Z continua funcionando depois
+const TOAST_DURATION_MS = 8000;
+
+/**
+ * Aviso exibido após uma ação destrutiva, com o botão "Desfazer".
+ */
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [message, onDismiss]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-4 bg-gray-900 text-white text-sm rounded-lg shadow-xl px-4 py-3" role="status">
+      <span>{message}</span>
+      <button onClick={onUndo} className="font-semibold text-indigo-300 hover:text-indigo-200">
+        Desfazer
+      </button>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-gray-200" aria-label="Fechar aviso">
+        ✕
+      </button>
+    </div>
+  );
+};
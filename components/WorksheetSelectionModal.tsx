@@ -0,0 +1,156 @@
+import React, { useState, useMemo } from 'react';
+import { getDefaultHeaders, headersMatch } from '../utils/workbookParser';
+import type { WorksheetSource } from '../utils/workbookParser';
+
+export type WorksheetImportMode = 'separate' | 'append';
+
+interface WorksheetSelectionModalProps {
+  worksheets: WorksheetSource[];
+  allowSeparate: boolean; // Falso ao atualizar uma planilha existente (sempre anexa)
+  onConfirm: (selected: WorksheetSource[], mode: WorksheetImportMode, addSourceColumn: boolean) => void;
+  onCancel: () => void;
+}
+
+export const WorksheetSelectionModal: React.FC<WorksheetSelectionModalProps> = ({
+  worksheets,
+  allowSeparate,
+  onConfirm,
+  onCancel,
+}) => {
+  const [selectedIndexes, setSelectedIndexes] = useState<number[]>(() => worksheets.map((_, i) => i));
+  const [mode, setMode] = useState<WorksheetImportMode>(allowSeparate ? 'separate' : 'append');
+  const [addSourceColumn, setAddSourceColumn] = useState(true);
+
+  // Cabeçalho detectado de cada aba, para verificar se podem ser combinadas
+  const detectedHeaders = useMemo(() => worksheets.map(({ sheet }) => {
+    try {
+      return getDefaultHeaders(sheet);
+    } catch {
+      return null;
+    }
+  }), [worksheets]);
+
+  const referenceHeaders = selectedIndexes.length > 0 ? detectedHeaders[selectedIndexes[0]] : null;
+
+  const isCompatible = (index: number): boolean => {
+    const headers = detectedHeaders[index];
+    return !!headers && !!referenceHeaders && headersMatch(headers, referenceHeaders);
+  };
+
+  const incompatibleCount = mode === 'append'
+    ? selectedIndexes.filter(index => !isCompatible(index)).length
+    : 0;
+
+  const toggleWorksheet = (index: number) => {
+    setSelectedIndexes(prev => prev.includes(index)
+      ? prev.filter(i => i !== index)
+      : [...prev, index].sort((a, b) => a - b));
+  };
+
+  const handleConfirm = () => {
+    if (selectedIndexes.length === 0) {
+      alert('Selecione pelo menos uma aba para importar.');
+      return;
+    }
+    if (incompatibleCount > 0) {
+      alert('Para combinar as abas em uma só planilha, todas precisam ter o mesmo cabeçalho.');
+      return;
+    }
+    onConfirm(selectedIndexes.map(i => worksheets[i]), mode, mode === 'append' && allowSeparate && addSourceColumn);
+  };
+
+  const hasMultipleFiles = new Set(worksheets.map(w => w.fileName)).size > 1;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <header className="p-6 border-b">
+          <h2 className="text-2xl font-bold text-gray-800">Selecionar Abas</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            O arquivo contém várias abas com dados. Escolha quais deseja importar.
+          </p>
+        </header>
+
+        <div className="flex-grow overflow-y-auto p-6 space-y-6">
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {worksheets.map(({ fileName, sheet }, index) => {
+              const isSelected = selectedIndexes.includes(index);
+              const showMismatch = mode === 'append' && isSelected && !isCompatible(index);
+              return (
+                <label key={`${fileName}-${sheet.name}`} className="flex items-center px-4 py-3 hover:bg-gray-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => toggleWorksheet(index)}
+                    className="mr-3 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <div className="flex-grow min-w-0">
+                    <div className="font-semibold text-sm text-gray-800 truncate">{sheet.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {hasMultipleFiles && <span>{fileName} • </span>}
+                      {sheet.rowCount} linhas • {sheet.columnCount} colunas
+                    </div>
+                  </div>
+                  {showMismatch && (
+                    <span className="ml-2 text-xs font-medium text-red-600 whitespace-nowrap">Cabeçalho diferente</span>
+                  )}
+                </label>
+              );
+            })}
+          </div>
+
+          {allowSeparate && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">Como importar</h3>
+              <label className="flex items-start space-x-2 text-sm text-gray-700 cursor-pointer">
+                <input type="radio" checked={mode === 'separate'} onChange={() => setMode('separate')} className="mt-1 text-indigo-600 focus:ring-indigo-500" />
+                <span>Cada aba como uma planilha separada</span>
+              </label>
+              <label className="flex items-start space-x-2 text-sm text-gray-700 cursor-pointer">
+                <input type="radio" checked={mode === 'append'} onChange={() => setMode('append')} className="mt-1 text-indigo-600 focus:ring-indigo-500" />
+                <span>Combinar as abas em uma única planilha (cabeçalhos iguais)</span>
+              </label>
+              {mode === 'append' && (
+                <label className="flex items-center space-x-2 text-sm text-gray-600 pl-6 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={addSourceColumn}
+                    onChange={(e) => setAddSourceColumn(e.target.checked)}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>Adicionar coluna "Aba" com o nome da aba de origem</span>
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+
+        <footer className="p-4 bg-gray-50 border-t flex justify-between items-center">
+          <div className="text-sm text-gray-600">
+            {incompatibleCount > 0 ? (
+              <span className="font-medium text-red-600">
+                {incompatibleCount} aba{incompatibleCount > 1 ? 's' : ''} com cabeçalho diferente
+              </span>
+            ) : (
+              <span>{selectedIndexes.length} de {worksheets.length} abas selecionadas</span>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={onCancel}
+              className="px-6 py-2 bg-gray-300 text-gray-700 font-semibold rounded-md hover:bg-gray-400 transition"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleConfirm}
+              className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition"
+            >
+              Importar
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
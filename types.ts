@@ -8,20 +8,110 @@ export interface SortConfig {
   direction: SortDirection;
 }
 
+export type DateFilterMode = 'between' | 'before' | 'after';
+
+export interface DateFilter {
+  mode: DateFilterMode;
+  from?: string; // Data ISO (yyyy-mm-dd), usada em 'between' e 'after'
+  to?: string; // Data ISO (yyyy-mm-dd), usada em 'between' e 'before'
+}
+
+export type ColumnType = 'text' | 'integer' | 'decimal' | 'date' | 'boolean' | 'identifier';
+
 export interface SheetData {
   headers: string[];
   rows: Row[];
+  columnTypes?: Record<string, ColumnType>; // Tipo inferido (ou escolhido) de cada coluna
+  decimalSeparators?: Record<string, ',' | '.'>; // Separador decimal de cada coluna numérica
+  // Quando cada linha entrou ou foi atualizada por uma importação (ms), na
+  // ordem de rows; 0 = antes desse registro existir
+  rowImportedAt?: number[];
+}
+
+export interface SheetPeriod {
+  year: number;
+  semester: 1 | 2;
 }
 
 export interface SheetMetadata {
-  key: string; // Identificador único da planilha
+  key: string; // Identificador único da planilha (não muda ao renomear)
   name: string; // Nome de exibição da planilha
   createdAt: string;
   updatedAt: string;
+  archived?: boolean; // Fora das listas de uso; no IndexedDB, guardada compactada
+  deletedAt?: string; // Na lixeira desde esta data; excluída de vez após o prazo da lixeira
+  description?: string;
+  tags?: string[];
+  type?: string; // Ofertas, Alunos ou um tipo personalizado
+  period?: SheetPeriod; // Período letivo a que os dados se referem
+}
+
+// Coluna com valor fixo acrescentada na importação (ex.: "Semestre" = "2024/1")
+export interface CustomColumn {
+  name: string;
+  value: string;
+}
+
+// Escolhas da pré-visualização reaplicadas a arquivos com o mesmo cabeçalho
+export interface ImportProfile {
+  id: string;
+  name: string;
+  headerSignature: string; // Cabeçalhos normalizados do arquivo, usados para reconhecer o perfil
+  headerRowIndex: number;
+  headerRowCount: 1 | 2;
+  skipRows: number;
+  customColumns: CustomColumn[];
+  columnTypes: Record<string, ColumnType>;
+  hiddenColumns: string[];
+  updatedAt: string;
 }
 
+export type ImportFileStatus = 'imported' | 'failed' | 'skipped';
+
+// Resultado da leitura de um arquivo (ou aba) em uma importação
+export interface ImportFileResult {
+  fileName: string;
+  worksheet?: string; // Aba de origem, quando o arquivo tiver abas
+  status: ImportFileStatus;
+  rowsRead: number;
+  emptyRowsSkipped: number;
+  headerRowIndex?: number; // Índice (0-based) da linha de cabeçalho usada
+  headerRowCount?: number;
+  message?: string; // Motivo da falha ou do descarte
+}
+
+export interface ImportLogEntry {
+  id: string;
+  importedAt: string;
+  action: 'create' | 'update';
+  files: ImportFileResult[];
+  rowsAdded: number;
+  rowsUpdated: number;
+  rowsRemoved?: number; // Só nas mesclagens que removem linhas (sincronizar, substituir)
+}
+
+export type SnapshotReason = 'merge' | 'manual' | 'restore' | 'dedup';
+
+// Cópia de uma planilha guardada antes de alterações (os dados ficam à parte)
+export interface SnapshotInfo {
+  id: string;
+  sheetKey: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  sourceFiles: string[]; // Arquivos da mesclagem que motivou a cópia
+  rowCount: number;
+  columnCount: number;
+}
+
+// Como os novos dados entram em uma planilha existente (ver utils/rowMerge.ts)
+export type MergeStrategy = 'replace' | 'append' | 'upsert' | 'sync';
+
 export interface StoredSheet {
   metadata: SheetMetadata;
   data: SheetData;
   visibleColumns: string[];
+  keyColumns?: string[]; // Colunas que identificam um registro ao mesclar novos dados
+  mergeStrategy?: MergeStrategy; // Última estratégia de mesclagem escolhida
+  importHistory?: ImportLogEntry[]; // Importações que alimentaram a planilha, mais recentes primeiro
+  schemaVersion?: number; // Versão do formato gravado (ver utils/sheetMigrations.ts)
 }
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { ImportLogEntry, Row } from '../types';
+import { BackupError, mergeStoredSheets, planBackupRestore, readBackupFile } from './backup';
+import { IMPORT_HISTORY_LIMIT } from './importHistory';
+import { buildStoredSheet } from './testFixtures';
+import type { WorkspaceBackup } from './backup';
+
+const buildSheet = (rows: Row[], keyColumns?: string[]) => buildStoredSheet({ headers: ['RA', 'Curso'], rows }, { keyColumns });
+
+describe('mergeStoredSheets', () => {
+  it('atualiza pelas colunas-chave da planilha existente', () => {
+    const merged = mergeStoredSheets(
+      buildSheet([{ RA: '1', Curso: 'Direito' }], ['RA']),
+      buildSheet([{ RA: '1', Curso: 'Medicina' }, { RA: '2', Curso: 'Letras' }])
+    );
+    expect(merged.data.rows).toEqual([{ RA: '1', Curso: 'Medicina' }, { RA: '2', Curso: 'Letras' }]);
+    expect(merged.keyColumns).toEqual(['RA']);
+  });
+
+  it('sem colunas-chave, só deixa de fora as linhas idênticas', () => {
+    const merged = mergeStoredSheets(
+      buildSheet([{ RA: '1', Curso: 'Direito' }]),
+      buildSheet([{ RA: '1', Curso: 'Direito' }, { RA: '1', Curso: 'Medicina' }])
+    );
+    expect(merged.data.rows).toEqual([{ RA: '1', Curso: 'Direito' }, { RA: '1', Curso: 'Medicina' }]);
+  });
+});
+
+describe('mergeStoredSheets: histórico de importações', () => {
+  const entry = (id: string, importedAt: string): ImportLogEntry => ({
+    id,
+    importedAt,
+    action: 'update',
+    files: [],
+    rowsAdded: 0,
+    rowsUpdated: 0,
+  });
+
+  it('junta sem repetir entradas, mais recentes primeiro', () => {
+    const merged = mergeStoredSheets(
+      { ...buildSheet([]), importHistory: [entry('b', '2024-03-01'), entry('a', '2024-01-01')] },
+      { ...buildSheet([]), importHistory: [entry('c', '2024-02-01'), entry('a', '2024-01-01')] }
+    );
+    expect(merged.importHistory?.map(item => item.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('guarda no máximo o limite de entradas', () => {
+    const history = (prefix: string) =>
+      Array.from({ length: IMPORT_HISTORY_LIMIT }, (_, i) => entry(`${prefix}${i}`, `2024-01-01T00:00:${String(i).padStart(2, '0')}`));
+    const merged = mergeStoredSheets({ ...buildSheet([]), importHistory: history('a') }, { ...buildSheet([]), importHistory: history('b') });
+    expect(merged.importHistory).toHaveLength(IMPORT_HISTORY_LIMIT);
+  });
+});
+
+describe('readBackupFile', () => {
+  const backupFile = (content: unknown) => new File([JSON.stringify(content)], 'backup.json');
+  const backup = {
+    format: 'analise-siaa-backup',
+    version: 1,
+    exportedAt: '2024-06-01T00:00:00.000Z',
+    sheets: [buildSheet([{ RA: '1', Curso: 'Direito' }])],
+  };
+
+  it('lê o backup e descarta cópias e perfis incompletos', async () => {
+    const profile = {
+      id: 'p1',
+      name: 'Ofertas',
+      headerSignature: 'ra|curso',
+      headerRowIndex: 0,
+      headerRowCount: 1,
+      skipRows: 0,
+      customColumns: [],
+      columnTypes: {},
+      hiddenColumns: [],
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    };
+    const read = await readBackupFile(backupFile({
+      ...backup,
+      snapshots: [{ info: { id: 's1' }, sheet: buildSheet([]) }],
+      importProfiles: [profile, { ...profile, id: 'p2', headerRowCount: 3 }, null],
+    }));
+    expect(read.sheets.map(sheet => sheet.metadata.key)).toEqual(['alunos']);
+    expect(read.snapshots).toEqual([]);
+    expect(read.importProfiles).toEqual([profile]);
+  });
+
+  it('recusa arquivos que não são backups ou com planilhas incompletas', async () => {
+    await expect(readBackupFile(backupFile({ ...backup, format: 'outro' }))).rejects.toBeInstanceOf(BackupError);
+    await expect(readBackupFile(backupFile({ ...backup, version: 99 }))).rejects.toBeInstanceOf(BackupError);
+    await expect(readBackupFile(backupFile({ ...backup, sheets: [{ metadata: {} }] }))).rejects.toBeInstanceOf(BackupError);
+    await expect(readBackupFile(new File(['{'], 'backup.json'))).rejects.toBeInstanceOf(BackupError);
+  });
+});
+
+describe('planBackupRestore', () => {
+  it('ao manter as duas, acrescenta "(restaurada)" à chave e ao nome', () => {
+    const existing = { ...buildSheet([]), metadata: { ...buildSheet([]).metadata, name: 'Alunos 2024/1' } };
+    const backup: WorkspaceBackup = {
+      format: 'analise-siaa-backup',
+      version: 1,
+      exportedAt: '2024-06-01T00:00:00.000Z',
+      sheets: [existing],
+      snapshots: [],
+      importProfiles: [],
+    };
+    const taken = { alunos: existing, 'alunos (restaurada)': buildSheet([]) };
+    const { sheets } = planBackupRestore(backup, taken, { alunos: 'keep-both' });
+    expect(sheets[0].metadata.key).toBe('alunos (restaurada 2)');
+    expect(sheets[0].metadata.name).toBe('Alunos 2024/1 (restaurada 2)');
+  });
+});
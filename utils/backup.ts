@@ -0,0 +1,272 @@
+import type { ImportProfile, SnapshotInfo, StoredSheet } from '../types';
+import type { SheetStorage } from './sheetStorage';
+import { loadImportProfiles } from './importProfiles';
+import { gunzipText, gzipText, supportsCompression } from './compression';
+import { downloadBlob } from './download';
+import { isRecord, migrateStoredSheet, stampSchemaVersion } from './sheetMigrations';
+import { applyMergePlan, planMerge, resolveKeyColumns } from './rowMerge';
+import { mergeImportHistories } from './importHistory';
+
+const BACKUP_FORMAT = 'analise-siaa-backup';
+// Aumentar ao mudar o formato; arquivos de versões futuras são recusados
+const BACKUP_VERSION = 1;
+
+export interface BackupSnapshot {
+  info: SnapshotInfo;
+  sheet: StoredSheet;
+}
+
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  sheets: StoredSheet[];
+  snapshots: BackupSnapshot[];
+  importProfiles: ImportProfile[];
+}
+
+export interface BackupOptions {
+  compress: boolean;
+  includeSnapshots: boolean;
+}
+
+// O que fazer com uma planilha do backup cuja chave já existe
+export type BackupCollisionMode = 'replace' | 'merge' | 'keep-both';
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/**
+ * Reúne todas as planilhas, os perfis de importação e, se pedido, as cópias
+ * guardadas de cada planilha.
+ */
+export const buildWorkspaceBackup = async (
+  storage: SheetStorage,
+  sheets: StoredSheet[],
+  includeSnapshots: boolean
+): Promise<WorkspaceBackup> => {
+  const snapshots: BackupSnapshot[] = [];
+  if (includeSnapshots) {
+    for (const sheet of sheets) {
+      for (const info of await storage.listSnapshots(sheet.metadata.key)) {
+        const snapshotSheet = await storage.loadSnapshot(info.id);
+        if (snapshotSheet) snapshots.push({ info, sheet: snapshotSheet });
+      }
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    sheets: sheets.map(stampSchemaVersion),
+    snapshots: snapshots.map(({ info, sheet }) => ({ info, sheet: stampSchemaVersion(sheet) })),
+    importProfiles: loadImportProfiles(),
+  };
+};
+
+export const downloadWorkspaceBackup = async (backup: WorkspaceBackup, compress: boolean) => {
+  const json = JSON.stringify(backup);
+  const useGzip = compress && supportsCompression();
+  const blob = useGzip ? await gzipText(json) : new Blob([json], { type: 'application/json' });
+  const date = backup.exportedAt.slice(0, 10);
+  downloadBlob(blob, `analise-siaa-backup-${date}.json${useGzip ? '.gz' : ''}`);
+};
+
+const isStoredSheet = (value: unknown): value is StoredSheet =>
+  isRecord(value) &&
+  isRecord(value.metadata) &&
+  typeof value.metadata.key === 'string' &&
+  typeof value.metadata.name === 'string' &&
+  isRecord(value.data) &&
+  Array.isArray(value.data.headers) &&
+  Array.isArray(value.data.rows) &&
+  Array.isArray(value.visibleColumns);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isSnapshotInfo = (value: unknown): value is SnapshotInfo =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.sheetKey === 'string' &&
+  typeof value.createdAt === 'string' &&
+  typeof value.reason === 'string' &&
+  isStringArray(value.sourceFiles) &&
+  typeof value.rowCount === 'number' &&
+  typeof value.columnCount === 'number';
+
+const isImportProfile = (value: unknown): value is ImportProfile =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.headerSignature === 'string' &&
+  typeof value.headerRowIndex === 'number' &&
+  (value.headerRowCount === 1 || value.headerRowCount === 2) &&
+  typeof value.skipRows === 'number' &&
+  Array.isArray(value.customColumns) &&
+  value.customColumns.every(column => isRecord(column) && typeof column.name === 'string' && typeof column.value === 'string') &&
+  isRecord(value.columnTypes) &&
+  isStringArray(value.hiddenColumns) &&
+  typeof value.updatedAt === 'string';
+
+/**
+ * Lê e valida um arquivo de backup, compactado com gzip ou não. Cópias e
+ * perfis de importação incompletos são descartados; planilhas incompletas
+ * recusam o arquivo inteiro.
+ */
+export const readBackupFile = async (file: File): Promise<WorkspaceBackup> => {
+  const bytes = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+  if (isGzip && !supportsCompression()) {
+    throw new BackupError('Este navegador não consegue descompactar o backup.');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(isGzip ? await gunzipText(file) : await file.text());
+  } catch {
+    throw new BackupError('O arquivo não é um backup válido.');
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT || typeof parsed.exportedAt !== 'string') {
+    throw new BackupError('O arquivo não é um backup do Visualizador de Planilhas.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new BackupError('O backup foi gerado por uma versão mais nova do aplicativo.');
+  }
+  if (!Array.isArray(parsed.sheets) || !parsed.sheets.every(isStoredSheet)) {
+    throw new BackupError('O backup contém planilhas incompletas ou corrompidas.');
+  }
+
+  // Planilhas de backups antigos passam pelas mesmas migrações do armazenamento
+  const sheets = parsed.sheets.map(sheet => {
+    try {
+      return migrateStoredSheet(sheet).sheet;
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      throw new BackupError(`A planilha "${sheet.metadata.name}" do backup não pôde ser lida. ${detail}`);
+    }
+  });
+  const snapshots = (Array.isArray(parsed.snapshots) ? parsed.snapshots : []).flatMap((snapshot: unknown): BackupSnapshot[] => {
+    if (!isRecord(snapshot) || !isSnapshotInfo(snapshot.info) || !isStoredSheet(snapshot.sheet)) return [];
+    try {
+      return [{ info: snapshot.info, sheet: migrateStoredSheet(snapshot.sheet).sheet }];
+    } catch {
+      return []; // Uma cópia ilegível não impede a restauração das planilhas
+    }
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: parsed.version,
+    exportedAt: parsed.exportedAt,
+    sheets,
+    snapshots,
+    importProfiles: Array.isArray(parsed.importProfiles) ? parsed.importProfiles.filter(isImportProfile) : [],
+  };
+};
+
+/**
+ * Junta a planilha do backup à existente: colunas novas são acrescentadas e,
+ * como em "Atualizar e acrescentar", as linhas com a mesma chave (colunas-chave
+ * da planilha existente) são atualizadas e as demais entram como novas. Sem
+ * colunas-chave, só linhas idênticas são reconhecidas.
+ */
+export const mergeStoredSheets = (existing: StoredSheet, incoming: StoredSheet): StoredSheet => {
+  const headers = [
+    ...existing.data.headers,
+    ...incoming.data.headers.filter(header => !existing.data.headers.includes(header)),
+  ];
+  const plan = planMerge(
+    existing.data.rows,
+    incoming.data.rows,
+    headers,
+    resolveKeyColumns(existing.keyColumns, headers),
+    'upsert'
+  );
+  // As linhas que vêm do backup contam como importadas na última alteração dele
+  const { rows, rowImportedAt } = applyMergePlan(existing.data.rows, plan, undefined, {
+    existing: existing.data.rowImportedAt,
+    importedAt: Date.parse(incoming.metadata.updatedAt) || 0,
+  });
+
+  return {
+    ...existing,
+    metadata: { ...existing.metadata, updatedAt: new Date().toISOString() },
+    data: {
+      headers,
+      rows,
+      rowImportedAt,
+      columnTypes: existing.data.columnTypes || incoming.data.columnTypes
+        ? { ...incoming.data.columnTypes, ...existing.data.columnTypes }
+        : undefined,
+      decimalSeparators: existing.data.decimalSeparators || incoming.data.decimalSeparators
+        ? { ...incoming.data.decimalSeparators, ...existing.data.decimalSeparators }
+        : undefined,
+    },
+    visibleColumns: [
+      ...existing.visibleColumns,
+      ...incoming.visibleColumns.filter(header => !existing.visibleColumns.includes(header)),
+    ],
+    importHistory: mergeImportHistories(existing.importHistory, incoming.importHistory),
+  };
+};
+
+// Sufixo " (restaurada)" (ou " (restaurada 2)"...) que torna a chave única
+const restoredSuffix = (baseKey: string, takenKeys: Set<string>): string => {
+  let suffix = ' (restaurada)';
+  for (let i = 2; takenKeys.has(`${baseKey}${suffix}`); i++) {
+    suffix = ` (restaurada ${i})`;
+  }
+  return suffix;
+};
+
+export interface BackupRestorePlan {
+  sheets: StoredSheet[];
+  snapshots: BackupSnapshot[];
+}
+
+/**
+ * Define as planilhas e cópias a gravar, aplicando a escolha feita para cada
+ * chave que já existe. Chaves sem escolha são substituídas.
+ */
+export const planBackupRestore = (
+  backup: WorkspaceBackup,
+  existingSheets: Record<string, StoredSheet>,
+  resolutions: Record<string, BackupCollisionMode>
+): BackupRestorePlan => {
+  const takenKeys = new Set([...Object.keys(existingSheets), ...backup.sheets.map(sheet => sheet.metadata.key)]);
+  const sheets: StoredSheet[] = [];
+  const snapshots: BackupSnapshot[] = [];
+
+  backup.sheets.forEach(sheet => {
+    const key = sheet.metadata.key;
+    const existing = existingSheets[key];
+    const mode = existing ? resolutions[key] ?? 'replace' : 'replace';
+    const sheetSnapshots = backup.snapshots.filter(snapshot => snapshot.info.sheetKey === key);
+
+    if (existing && mode === 'merge') {
+      sheets.push(mergeStoredSheets(existing, sheet));
+      snapshots.push(...sheetSnapshots);
+    } else if (existing && mode === 'keep-both') {
+      const suffix = restoredSuffix(key, takenKeys);
+      const newKey = `${key}${suffix}`;
+      takenKeys.add(newKey);
+      sheets.push({ ...sheet, metadata: { ...sheet.metadata, key: newKey, name: `${sheet.metadata.name}${suffix}` } });
+      snapshots.push(...sheetSnapshots.map(({ info, sheet: snapshotSheet }) => ({
+        info: { ...info, id: `${newKey}_${info.id}`, sheetKey: newKey },
+        sheet: snapshotSheet,
+      })));
+    } else {
+      sheets.push(sheet);
+      snapshots.push(...sheetSnapshots);
+    }
+  });
+
+  return { sheets, snapshots };
+};
@@ -0,0 +1,80 @@
+import { analyzeGrid, ParseError } from './workbookParser';
+import type { CellValue, ParsedWorksheet, RawGrid } from './workbookParser';
+import { splitDelimitedText, detectDecimalSeparator, toCellValue } from './delimitedText';
+
+export const CLIPBOARD_SOURCE_NAME = 'Área de transferência';
+
+/**
+ * Converte texto separado por tabulação (como o copiado do Excel, de
+ * páginas web ou pelo "Copiar Planilha Visível") em grade bruta.
+ */
+export const parseTabularText = (text: string): RawGrid => {
+  const cells = splitDelimitedText(text.replace(/\r?\n$/, ''), '\t');
+  const decimalSeparator = detectDecimalSeparator(cells);
+  return cells.map(row => row.map(cell => toCellValue(cell, decimalSeparator)));
+};
+
+/**
+ * Extrai a primeira tabela de um trecho HTML. Células mescladas
+ * horizontalmente (colspan) são repetidas como vazias para manter o
+ * alinhamento das colunas.
+ */
+export const parseHtmlTable = (html: string): RawGrid | null => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const table = doc.querySelector('table');
+  if (!table) return null;
+
+  const texts: string[][] = Array.from(table.querySelectorAll('tr')).map(tr =>
+    Array.from(tr.querySelectorAll('th, td')).flatMap(cell => {
+      const text = (cell.textContent ?? '').replace(/\s+/g, ' ').trim();
+      const span = Math.max(1, Number(cell.getAttribute('colspan')) || 1);
+      return [text, ...Array<string>(span - 1).fill('')];
+    })
+  );
+
+  const decimalSeparator = detectDecimalSeparator(texts);
+  return texts.map(row => row.map((cell): CellValue => toCellValue(cell, decimalSeparator)));
+};
+
+/**
+ * Interpreta o conteúdo colado (HTML com tabela tem preferência sobre
+ * texto) como uma aba pronta para a pré-visualização.
+ */
+export const parseClipboardContent = (html: string | null, text: string | null): ParsedWorksheet => {
+  const grid = (html && parseHtmlTable(html)) || (text ? parseTabularText(text) : null);
+  const sheet = grid ? analyzeGrid('Dados colados', grid) : null;
+  if (!sheet) {
+    throw new ParseError('empty', 'A área de transferência não contém uma tabela com cabeçalho e dados.');
+  }
+  return sheet;
+};
+
+/**
+ * Lê a área de transferência pela Clipboard API. Lança erro quando o
+ * navegador não permite a leitura; nesse caso, a interface oferece um
+ * campo para colar manualmente (Ctrl+V).
+ */
+export const readClipboardWorksheet = async (): Promise<ParsedWorksheet> => {
+  if (!navigator.clipboard) {
+    throw new Error('Clipboard API indisponível.');
+  }
+
+  let html: string | null = null;
+  let text: string | null = null;
+
+  if (typeof navigator.clipboard.read === 'function') {
+    const items = await navigator.clipboard.read();
+    for (const item of items) {
+      if (!html && item.types.includes('text/html')) {
+        html = await (await item.getType('text/html')).text();
+      }
+      if (!text && item.types.includes('text/plain')) {
+        text = await (await item.getType('text/plain')).text();
+      }
+    }
+  } else {
+    text = await navigator.clipboard.readText();
+  }
+
+  return parseClipboardContent(html, text);
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyColumnTypes,
+  coerceValue,
+  compareTypedValues,
+  inferColumnType,
+  inferDecimalSeparator,
+  matchesTypedFilter,
+} from './columnTypes';
+
+describe('inferColumnType', () => {
+  it('reconhece inteiros, decimais e datas', () => {
+    expect(inferColumnType('Vagas', ['10', '25', 3])).toBe('integer');
+    expect(inferColumnType('Nota', ['7,5', '10', '8,25'])).toBe('decimal');
+    expect(inferColumnType('Início', ['01/02/2024', '15/03/2024'])).toBe('date');
+  });
+
+  it('mantém códigos com zeros à esquerda como identificador', () => {
+    expect(inferColumnType('Matrícula', ['00123', '04567'])).toBe('identifier');
+    expect(inferColumnType('RA', [1234, 5678])).toBe('identifier');
+  });
+
+  it('reconhece sim/não', () => {
+    expect(inferColumnType('Ativo', ['Sim', 'Não', 'sim'])).toBe('boolean');
+  });
+});
+
+describe('inferDecimalSeparator', () => {
+  it('prefere a vírgula e usa o ponto quando só ele interpreta os valores', () => {
+    expect(inferDecimalSeparator(['1.234', '5,5'])).toBe(',');
+    expect(inferDecimalSeparator(['1.234', '1,234.5'])).toBe('.');
+    expect(inferDecimalSeparator([1, null, undefined])).toBe(',');
+  });
+});
+
+describe('coerceValue', () => {
+  it('converte números com o separador da coluna', () => {
+    expect(coerceValue('1.234', 'decimal')).toBe(1234);
+    expect(coerceValue('1.234', 'decimal', '.')).toBe(1.234);
+    expect(coerceValue('-', 'integer')).toBeNull();
+  });
+
+  it('mantém valores que não podem ser convertidos', () => {
+    expect(coerceValue('n/d', 'integer')).toBe('n/d');
+    expect(coerceValue('talvez', 'boolean')).toBe('talvez');
+  });
+});
+
+describe('applyColumnTypes', () => {
+  it('converte colunas com ponto decimal sem multiplicar por mil', () => {
+    const typed = applyColumnTypes(
+      { headers: ['Valor'], rows: [{ Valor: '1.234' }, { Valor: '10.5' }, { Valor: '1,000.25' }] },
+      { Valor: 'decimal' }
+    );
+    expect(typed.rows.map(row => row.Valor)).toEqual([1.234, 10.5, 1000.25]);
+    expect(typed.decimalSeparators).toEqual({ Valor: '.' });
+  });
+
+  it('usa o separador já registrado nos dados', () => {
+    const typed = applyColumnTypes(
+      { headers: ['Valor'], rows: [{ Valor: '1.234' }], decimalSeparators: { Valor: '.' } },
+      { Valor: 'decimal' }
+    );
+    expect(typed.rows[0].Valor).toBe(1.234);
+  });
+
+  it('grava texto para colunas sem tipo informado', () => {
+    const typed = applyColumnTypes({ headers: ['A', 'B'], rows: [{ A: ' x ', B: 1 }] }, { A: 'text' });
+    expect(typed.rows[0]).toEqual({ A: 'x', B: 1 });
+    expect(typed.columnTypes).toEqual({ A: 'text', B: 'text' });
+  });
+
+  it('não acrescenta às linhas as colunas que elas não têm', () => {
+    const typed = applyColumnTypes({ headers: ['A', 'B'], rows: [{ A: '1' }] }, { A: 'integer', B: 'text' });
+    expect(typed.rows[0]).toEqual({ A: 1 });
+  });
+});
+
+describe('compareTypedValues', () => {
+  it('ordena números e datas pelo valor', () => {
+    expect(compareTypedValues(9, 10, 'integer')).toBeLessThan(0);
+    expect(compareTypedValues('2024-01-10', '2023-12-31', 'date')).toBeGreaterThan(0);
+    expect(compareTypedValues('1.5', '1.25', 'decimal', '.')).toBeGreaterThan(0);
+  });
+});
+
+describe('matchesTypedFilter', () => {
+  it('aceita comparações e intervalos em colunas numéricas', () => {
+    expect(matchesTypedFilter(15, '>10', 'integer')).toBe(true);
+    expect(matchesTypedFilter(15, '10..20', 'integer')).toBe(true);
+    expect(matchesTypedFilter(25, '10..20', 'integer')).toBe(false);
+    expect(matchesTypedFilter('1.5', '>1.2', 'decimal', '.')).toBe(true);
+  });
+
+  it('busca trechos do texto exibido nas demais colunas', () => {
+    expect(matchesTypedFilter('Engenharia Civil', 'civil', 'text')).toBe(true);
+    expect(matchesTypedFilter(true, 'sim', 'boolean')).toBe(true);
+  });
+});
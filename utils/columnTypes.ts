@@ -0,0 +1,263 @@
+import type { ColumnType, Row, SheetData } from '../types';
+import { parseLocaleNumber } from './delimitedText';
+import type { DecimalSeparator } from './delimitedText';
+import { parseDateToIso, dateValueToTime, formatDatePtBr, isPlausibleExcelSerial } from './dates';
+
+type CellValue = Row[string];
+
+export const COLUMN_TYPES: Array<{ value: ColumnType; label: string }> = [
+  { value: 'text', label: 'Texto' },
+  { value: 'identifier', label: 'Identificador' },
+  { value: 'integer', label: 'Inteiro' },
+  { value: 'decimal', label: 'Decimal' },
+  { value: 'date', label: 'Data' },
+  { value: 'boolean', label: 'Sim/Não' },
+];
+
+// Quantidade de valores analisados por coluna na inferência
+const INFERENCE_SAMPLE_SIZE = 500;
+
+const TRUE_VALUES = new Set(['sim', 's', 'true', 'verdadeiro', 'yes']);
+const FALSE_VALUES = new Set(['não', 'nao', 'n', 'false', 'falso', 'no']);
+
+// Colunas cujo nome indica código, mesmo quando os valores parecem números
+const IDENTIFIER_HEADER_PATTERN = /^(ra|cpf|cnpj|cep|rg|id|c[oó]d(igo|\.)?|matr[ií]cula|telefone|celular)\b/i;
+const IDENTIFIER_VALUE_PATTERN = /^(\d{3}\.\d{3}\.\d{3}-\d{2}|\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}|\d{5}-\d{3})$/;
+// Colunas numéricas com esses nomes e valores de série plausíveis são datas do Excel
+const DATE_HEADER_PATTERN = /\b(data|dt|nascimento|in[ií]cio|fim|t[eé]rmino|vencimento|matr[ií]cula em|admiss[aã]o)\b/i;
+
+// Células que representam "sem valor" nas exportações
+const isBlank = (value: CellValue | undefined): boolean =>
+  value === null || value === undefined || String(value).trim() === '' || String(value).trim() === '-';
+
+/**
+ * Escolhe o separador decimal que consegue interpretar todos os textos
+ * numéricos da amostra, priorizando o padrão brasileiro.
+ */
+const pickDecimalSeparator = (texts: string[]): DecimalSeparator | null => {
+  if (texts.every(text => parseLocaleNumber(text, ',') !== null)) return ',';
+  if (texts.every(text => parseLocaleNumber(text, '.') !== null)) return '.';
+  return null;
+};
+
+/**
+ * Separador decimal dos textos numéricos de uma coluna ("1.234" vale 1234
+ * com vírgula e 1,234 com ponto). Sem textos que decidam, vale a vírgula.
+ */
+export const inferDecimalSeparator = (values: Array<CellValue | undefined>): DecimalSeparator => {
+  const texts = values
+    .filter((value): value is string => typeof value === 'string' && !isBlank(value))
+    .slice(0, INFERENCE_SAMPLE_SIZE)
+    .map(value => value.trim());
+  return texts.length > 0 ? pickDecimalSeparator(texts) ?? ',' : ',';
+};
+
+const toNumber = (value: CellValue, decimalSeparator: DecimalSeparator = ','): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  return parseLocaleNumber(value, decimalSeparator) ?? parseLocaleNumber(value, decimalSeparator === ',' ? '.' : ',');
+};
+
+/**
+ * Infere o tipo de uma coluna a partir de uma amostra de valores.
+ */
+export const inferColumnType = (header: string, values: CellValue[]): ColumnType => {
+  const sample = values.filter(value => !isBlank(value)).slice(0, INFERENCE_SAMPLE_SIZE);
+  if (sample.length === 0) return 'text';
+
+  const texts = sample.map(value => String(value).trim());
+
+  if (sample.every(value => typeof value === 'boolean' || TRUE_VALUES.has(String(value).trim().toLowerCase()) || FALSE_VALUES.has(String(value).trim().toLowerCase()))) {
+    // "S"/"N" isolados só contam como booleano se houver os dois valores
+    const distinct = new Set(texts.map(text => text.toLowerCase()));
+    if (sample.some(value => typeof value === 'boolean') || distinct.size >= 2 || texts.some(text => text.length > 1)) {
+      return 'boolean';
+    }
+  }
+
+  if (texts.every(text => IDENTIFIER_VALUE_PATTERN.test(text))) return 'identifier';
+  if (sample.every(value => typeof value === 'string' && parseDateToIso(value) !== null)) return 'date';
+  if (
+    DATE_HEADER_PATTERN.test(header) &&
+    sample.every(value => typeof value === 'number' && Number.isInteger(value) && isPlausibleExcelSerial(value))
+  ) {
+    return 'date';
+  }
+
+  const numericTexts = texts.filter((_, i) => typeof sample[i] === 'string');
+  const decimalSeparator = numericTexts.length > 0 ? pickDecimalSeparator(numericTexts) : ',';
+  const allNumeric = decimalSeparator !== null && sample.every(value => typeof value === 'number' || typeof value === 'string');
+
+  if (allNumeric) {
+    // Zeros à esquerda (matrículas, CPFs sem máscara) só sobrevivem como texto
+    const hasLeadingZeros = texts.some(text => /^0\d/.test(text));
+    const looksLikeCode = IDENTIFIER_HEADER_PATTERN.test(header.trim());
+    const numbers = sample.map(value => toNumber(value, decimalSeparator));
+    const allIntegers = numbers.every(number => number !== null && Number.isInteger(number));
+
+    if (hasLeadingZeros || (looksLikeCode && allIntegers)) return 'identifier';
+    if (allIntegers) return 'integer';
+    return 'decimal';
+  }
+
+  if (texts.some(text => /^0\d+$/.test(text)) && texts.every(text => /^\d+$/.test(text))) {
+    return 'identifier';
+  }
+
+  return 'text';
+};
+
+export const inferColumnTypes = (data: SheetData): Record<string, ColumnType> => {
+  const types: Record<string, ColumnType> = {};
+  data.headers.forEach(header => {
+    types[header] = inferColumnType(header, data.rows.map(row => row[header]));
+  });
+  return types;
+};
+
+/**
+ * Converte um valor bruto para o tipo da coluna. Valores que não podem ser
+ * convertidos são mantidos como estão, para não perder dados.
+ */
+export const coerceValue = (
+  value: CellValue | undefined,
+  type: ColumnType,
+  decimalSeparator: DecimalSeparator = ','
+): CellValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' && value.trim() === '') return null;
+
+  switch (type) {
+    case 'integer':
+    case 'decimal': {
+      if (isBlank(value)) return null;
+      const number = toNumber(value, decimalSeparator);
+      return number === null ? value : number;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const normalized = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.has(normalized)) return true;
+      if (FALSE_VALUES.has(normalized)) return false;
+      return value;
+    }
+    case 'identifier':
+    case 'text':
+      return typeof value === 'string' ? value.trim() : String(value);
+    case 'date':
+      if (isBlank(value)) return null;
+      return parseDateToIso(value) ?? value;
+    default:
+      return value;
+  }
+};
+
+const isNumericType = (type: ColumnType | undefined) => type === 'integer' || type === 'decimal';
+
+/**
+ * Aplica os tipos informados às linhas e grava-os no SheetData. Cada coluna
+ * numérica é convertida com o separador decimal já registrado nos dados ou,
+ * sem ele, com o inferido dos próprios valores. Colunas ausentes de uma linha
+ * continuam ausentes: numa atualização, o valor existente não é apagado.
+ */
+export const applyColumnTypes = (data: SheetData, types: Record<string, ColumnType>): SheetData => {
+  const typedHeaders = data.headers.filter(header => types[header]);
+  const decimalSeparators: Record<string, DecimalSeparator> = {};
+  typedHeaders.filter(header => isNumericType(types[header])).forEach(header => {
+    decimalSeparators[header] = data.decimalSeparators?.[header] ?? inferDecimalSeparator(data.rows.map(row => row[header]));
+  });
+
+  const rows = data.rows.map(row => {
+    const typedRow: Row = { ...row };
+    typedHeaders.forEach(header => {
+      if (!(header in row)) return;
+      typedRow[header] = coerceValue(row[header], types[header], decimalSeparators[header]);
+    });
+    return typedRow;
+  });
+  const columnTypes: Record<string, ColumnType> = {};
+  data.headers.forEach(header => {
+    columnTypes[header] = types[header] ?? 'text';
+  });
+  return { ...data, rows, columnTypes, decimalSeparators };
+};
+
+/**
+ * Compara dois valores não nulos segundo o tipo da coluna. Sem tipo
+ * (planilhas antigas), números são comparados como números e o resto
+ * como texto.
+ */
+export const compareTypedValues = (
+  a: CellValue,
+  b: CellValue,
+  type?: ColumnType,
+  decimalSeparator: DecimalSeparator = ','
+): number => {
+  if (isNumericType(type)) {
+    const numA = toNumber(a, decimalSeparator);
+    const numB = toNumber(b, decimalSeparator);
+    if (numA !== null && numB !== null) return numA - numB;
+  } else if (type === 'date') {
+    const dateA = dateValueToTime(a);
+    const dateB = dateValueToTime(b);
+    if (dateA !== null && dateB !== null) return dateA - dateB;
+  } else if (type === 'boolean') {
+    return Number(a === true) - Number(b === true);
+  } else if (!type && typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  const valA = String(a).toLowerCase();
+  const valB = String(b).toLowerCase();
+  return valA.localeCompare(valB, 'pt-BR');
+};
+
+/**
+ * Texto exibido para um valor, de acordo com o tipo da coluna.
+ */
+export const formatTypedValue = (value: CellValue | undefined, type?: ColumnType): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (type === 'date' && typeof value === 'string') return formatDatePtBr(value);
+  if (type === 'decimal' && typeof value === 'number') {
+    return value.toLocaleString('pt-BR', { maximumFractionDigits: 10 });
+  }
+  return String(value);
+};
+
+/**
+ * Verifica se um valor atende a um termo de filtro. Colunas numéricas
+ * aceitam comparações (">10", "<=5", "10..20"); as demais, busca por
+ * trecho do texto exibido.
+ */
+export const matchesTypedFilter = (
+  value: CellValue | undefined,
+  term: string,
+  type?: ColumnType,
+  decimalSeparator: DecimalSeparator = ','
+): boolean => {
+  if (isNumericType(type)) {
+    const number = value === null || value === undefined ? null : toNumber(value, decimalSeparator);
+    const range = term.match(/^(-?[\d.,]+)\s*\.\.\s*(-?[\d.,]+)$/);
+    if (range) {
+      const min = toNumber(range[1], decimalSeparator);
+      const max = toNumber(range[2], decimalSeparator);
+      return number !== null && min !== null && max !== null && number >= min && number <= max;
+    }
+    const comparison = term.match(/^(>=|<=|>|<|=)\s*(-?[\d.,]+)$/);
+    if (comparison) {
+      const target = toNumber(comparison[2], decimalSeparator);
+      if (number === null || target === null) return false;
+      switch (comparison[1]) {
+        case '>': return number > target;
+        case '<': return number < target;
+        case '>=': return number >= target;
+        case '<=': return number <= target;
+        default: return number === target;
+      }
+    }
+  }
+
+  if (value === null || value === undefined) return false;
+  return formatTypedValue(value, type).toLowerCase().includes(term);
+};
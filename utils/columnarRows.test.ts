@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { Row } from '../types';
+import { decodeRows, decodeStoredRows, encodeRows } from './columnarRows';
+
+const roundTrip = (rows: Row[]) => decodeRows(JSON.parse(JSON.stringify(encodeRows(rows))));
+
+describe('encodeRows / decodeRows', () => {
+  it('mantém ausentes as colunas que faltam em algumas linhas', () => {
+    const rows: Row[] = [{ RA: '1', Nome: 'Ana' }, { RA: '2' }, { Nome: 'Caio', Obs: 'novo' }];
+    const decoded = roundTrip(rows);
+    expect(decoded).toEqual(rows);
+    expect('Nome' in decoded[1]).toBe(false);
+  });
+
+  it('distingue célula nula de texto vazio', () => {
+    const rows: Row[] = [{ A: null, B: '' }, { A: '', B: null }];
+    expect(roundTrip(rows)).toEqual(rows);
+  });
+
+  it('guarda colunas com números e textos misturados como estão', () => {
+    const rows: Row[] = [{ Nota: 7.5, Ativo: true }, { Nota: 'dispensado', Ativo: null }, { Nota: 0, Ativo: false }];
+    const encoded = encodeRows(rows);
+    expect(encoded.columns.every(column => 'values' in column)).toBe(true);
+    expect(roundTrip(rows)).toEqual(rows);
+  });
+
+  it('guarda cada texto repetido uma vez só', () => {
+    const rows: Row[] = Array.from({ length: 100 }, (_, i) => ({ Curso: i % 2 ? 'Direito' : 'Letras', Turno: 'Noite' }));
+    const encoded = encodeRows(rows);
+    expect(encoded.strings).toEqual(['Letras', 'Direito', 'Noite']);
+    expect(roundTrip(rows)).toEqual(rows);
+  });
+
+  it('aceita planilhas sem linhas', () => {
+    expect(encodeRows([])).toEqual({ rowCount: 0, headers: [], strings: [], columns: [] });
+    expect(roundTrip([])).toEqual([]);
+  });
+});
+
+describe('decodeStoredRows', () => {
+  it('aceita o formato antigo, por coluna ou ausente', () => {
+    const rows: Row[] = [{ RA: '1' }];
+    expect(decodeStoredRows(rows)).toBe(rows);
+    expect(decodeStoredRows(encodeRows(rows))).toEqual(rows);
+    expect(decodeStoredRows(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { Row } from '../types';
+
+type CellValue = Row[string];
+
+// Coluna só com textos: posições na lista de textos únicos (null = célula vazia)
+interface DictionaryColumn {
+  strings: Array<number | null>;
+  missing?: number[]; // Linhas em que a coluna não existe
+}
+
+// Coluna com números, booleanos ou tipos misturados: valores como estão
+interface ValueColumn {
+  values: CellValue[];
+  missing?: number[];
+}
+
+type EncodedColumn = DictionaryColumn | ValueColumn;
+
+/**
+ * Linhas gravadas por coluna. Os nomes das colunas aparecem uma vez só e cada
+ * texto repetido (curso, turno, situação...) é guardado uma única vez.
+ */
+export interface ColumnarRows {
+  rowCount: number;
+  headers: string[];
+  strings: string[];
+  columns: EncodedColumn[];
+}
+
+export const isColumnarRows = (value: unknown): value is ColumnarRows =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && Array.isArray((value as ColumnarRows).columns);
+
+export const encodeRows = (rows: Row[]): ColumnarRows => {
+  // Colunas na ordem em que aparecem, incluindo as que faltam em algumas linhas
+  const headerSet = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(header => headerSet.add(header)));
+  const headers = Array.from(headerSet);
+
+  const strings: string[] = [];
+  const stringIndexes = new Map<string, number>();
+  const intern = (value: string) => {
+    let index = stringIndexes.get(value);
+    if (index === undefined) {
+      index = strings.length;
+      strings.push(value);
+      stringIndexes.set(value, index);
+    }
+    return index;
+  };
+
+  const columns = headers.map((header): EncodedColumn => {
+    const missing: number[] = [];
+    let onlyStrings = true;
+    rows.forEach((row, rowIndex) => {
+      if (!(header in row)) {
+        missing.push(rowIndex);
+      } else if (row[header] !== null && typeof row[header] !== 'string') {
+        onlyStrings = false;
+      }
+    });
+
+    const column: EncodedColumn = onlyStrings
+      ? { strings: rows.map(row => (typeof row[header] === 'string' ? intern(row[header] as string) : null)) }
+      : { values: rows.map(row => row[header] ?? null) };
+    if (missing.length > 0) column.missing = missing;
+    return column;
+  });
+
+  return { rowCount: rows.length, headers, strings, columns };
+};
+
+export const decodeRows = (encoded: ColumnarRows): Row[] => {
+  const rows: Row[] = Array.from({ length: encoded.rowCount }, () => ({}));
+
+  encoded.headers.forEach((header, columnIndex) => {
+    const column = encoded.columns[columnIndex];
+    const missing = new Set(column.missing);
+    rows.forEach((row, rowIndex) => {
+      if (missing.has(rowIndex)) return;
+      if ('strings' in column) {
+        const index = column.strings[rowIndex];
+        row[header] = index === null ? null : encoded.strings[index];
+      } else {
+        row[header] = column.values[rowIndex];
+      }
+    });
+  });
+
+  return rows;
+};
+
+/**
+ * Aceita linhas no formato antigo (lista de objetos) ou por coluna.
+ */
+export const decodeStoredRows = (stored: Row[] | ColumnarRows | undefined): Row[] =>
+  isColumnarRows(stored) ? decodeRows(stored) : stored ?? [];
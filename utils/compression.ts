@@ -0,0 +1,14 @@
+// Compressão gzip nativa do navegador (CompressionStream)
+
+export const supportsCompression = (): boolean =>
+  typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+export const gzipText = async (text: string): Promise<Blob> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).blob();
+};
+
+export const gunzipText = async (blob: Blob): Promise<string> => {
+  const stream = blob.stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+};
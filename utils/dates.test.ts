@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  dateValueToTime,
+  excelSerialToIso,
+  formatDatePtBr,
+  isDateFilterActive,
+  matchesDateFilter,
+  parseDateToIso,
+} from './dates';
+
+describe('excelSerialToIso', () => {
+  it('converte seriais do Excel, com horário quando houver', () => {
+    expect(excelSerialToIso(45291)).toBe('2023-12-31');
+    expect(excelSerialToIso(45291.5)).toBe('2023-12-31T12:00');
+    expect(excelSerialToIso(0)).toBeNull();
+  });
+});
+
+describe('parseDateToIso', () => {
+  it('aceita dd/mm/aaaa, separadores alternativos e ano com dois dígitos', () => {
+    expect(parseDateToIso('05/03/2024')).toBe('2024-03-05');
+    expect(parseDateToIso('5.3.24')).toBe('2024-03-05');
+    expect(parseDateToIso('31-12-99')).toBe('1999-12-31');
+    expect(parseDateToIso('05/03/2024 14:30')).toBe('2024-03-05T14:30');
+  });
+
+  it('aceita ISO e seriais plausíveis', () => {
+    expect(parseDateToIso('2024-03-05')).toBe('2024-03-05');
+    expect(parseDateToIso('2024-03-05T08:15:00')).toBe('2024-03-05T08:15');
+    expect(parseDateToIso(45291)).toBe('2023-12-31');
+  });
+
+  it('recusa datas inexistentes, números fora da faixa e textos', () => {
+    expect(parseDateToIso('31/02/2024')).toBeNull();
+    expect(parseDateToIso('29/02/2023')).toBeNull();
+    expect(parseDateToIso(2024)).toBeNull();
+    expect(parseDateToIso('Direito')).toBeNull();
+    expect(parseDateToIso(null)).toBeNull();
+  });
+});
+
+describe('formatDatePtBr', () => {
+  it('formata no padrão brasileiro e deixa outros textos como estão', () => {
+    expect(formatDatePtBr('2024-03-05')).toBe('05/03/2024');
+    expect(formatDatePtBr('2024-03-05T14:30')).toBe('05/03/2024 14:30');
+    expect(formatDatePtBr('sem data')).toBe('sem data');
+  });
+});
+
+describe('dateValueToTime', () => {
+  it('devolve o instante em UTC', () => {
+    expect(dateValueToTime('05/03/2024 14:30')).toBe(Date.UTC(2024, 2, 5, 14, 30));
+    expect(dateValueToTime('')).toBeNull();
+  });
+});
+
+describe('matchesDateFilter', () => {
+  it('usa dias inteiros e inclusivos no intervalo', () => {
+    const filter = { mode: 'between' as const, from: '2024-03-01', to: '2024-03-31' };
+    expect(matchesDateFilter('2024-03-01', filter)).toBe(true);
+    expect(matchesDateFilter('31/03/2024 23:59', filter)).toBe(true);
+    expect(matchesDateFilter('2024-04-01', filter)).toBe(false);
+    expect(matchesDateFilter('texto', filter)).toBe(false);
+  });
+
+  it('antes e depois não incluem o próprio dia', () => {
+    expect(matchesDateFilter('2024-03-01', { mode: 'before', from: '', to: '2024-03-01' })).toBe(false);
+    expect(matchesDateFilter('2024-02-29', { mode: 'before', from: '', to: '2024-03-01' })).toBe(true);
+    expect(matchesDateFilter('2024-03-01T10:00', { mode: 'after', from: '2024-03-01', to: '' })).toBe(false);
+    expect(matchesDateFilter('2024-03-02', { mode: 'after', from: '2024-03-01', to: '' })).toBe(true);
+  });
+});
+
+describe('isDateFilterActive', () => {
+  it('só considera os limites usados pelo modo', () => {
+    expect(isDateFilterActive(undefined)).toBe(false);
+    expect(isDateFilterActive({ mode: 'before', from: '2024-03-01', to: '' })).toBe(false);
+    expect(isDateFilterActive({ mode: 'between', from: '', to: '2024-03-31' })).toBe(true);
+  });
+});
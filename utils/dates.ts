@@ -0,0 +1,124 @@
+import type { DateFilter } from '../types';
+
+// Dia zero do sistema de datas do Excel (já compensa o falso 29/02/1900)
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Seriais aceitos como data: 01/01/1950 a 31/12/2099
+const MIN_PLAUSIBLE_SERIAL = 18264;
+const MAX_PLAUSIBLE_SERIAL = 73415;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+  if (month < 1 || month > 12 || day < 1) return false;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return day <= daysInMonth;
+};
+
+const toIso = (year: number, month: number, day: number, hours = 0, minutes = 0): string | null => {
+  if (!isValidDate(year, month, day) || hours > 23 || minutes > 59) return null;
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  return hours || minutes ? `${date}T${pad(hours)}:${pad(minutes)}` : date;
+};
+
+export const isPlausibleExcelSerial = (value: number): boolean =>
+  value >= MIN_PLAUSIBLE_SERIAL && value <= MAX_PLAUSIBLE_SERIAL;
+
+/**
+ * Converte um número de série do Excel (ex.: 45291) em data ISO.
+ */
+export const excelSerialToIso = (serial: number): string | null => {
+  if (!Number.isFinite(serial) || serial <= 0) return null;
+  // Arredondar para o minuto evita 23:59:59 causados por ponto flutuante
+  const totalMinutes = Math.round(serial * 24 * 60);
+  const date = new Date(EXCEL_EPOCH_UTC + totalMinutes * 60 * 1000);
+  return toIso(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes()
+  );
+};
+
+/**
+ * Converte as partes devolvidas por XLSX.SSF.parse_date_code em data ISO.
+ */
+export const datePartsToIso = (parts: { y: number; m: number; d: number; H: number; M: number }): string | null =>
+  toIso(parts.y, parts.m, parts.d, parts.H, parts.M);
+
+/**
+ * Interpreta um valor como data e devolve em ISO (yyyy-mm-dd, com
+ * "Thh:mm" quando houver horário). Aceita dd/mm/aaaa (também com "-" ou
+ * "."), ano com dois dígitos, ISO e números de série do Excel.
+ */
+export const parseDateToIso = (value: unknown): string | null => {
+  if (typeof value === 'number') {
+    return isPlausibleExcelSerial(value) ? excelSerialToIso(value) : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/);
+  if (iso) {
+    return toIso(Number(iso[1]), Number(iso[2]), Number(iso[3]), Number(iso[4] ?? 0), Number(iso[5] ?? 0));
+  }
+
+  const br = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:,?\s+(\d{1,2}):(\d{2})(?::\d{2})?)?$/);
+  if (br) {
+    let year = Number(br[3]);
+    if (br[3].length === 2) year += year < 50 ? 2000 : 1900;
+    return toIso(year, Number(br[2]), Number(br[1]), Number(br[4] ?? 0), Number(br[5] ?? 0));
+  }
+
+  return null;
+};
+
+/**
+ * Formata uma data ISO no padrão brasileiro (dd/mm/aaaa [hh:mm]).
+ */
+export const formatDatePtBr = (iso: string): string => {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/);
+  if (!match) return iso;
+  const date = `${match[3]}/${match[2]}/${match[1]}`;
+  return match[4] ? `${date} ${match[4]}:${match[5]}` : date;
+};
+
+/**
+ * Instante (ms, UTC) de um valor de data, ou null se não for data.
+ */
+export const dateValueToTime = (value: unknown): number | null => {
+  const iso = parseDateToIso(value);
+  if (!iso) return null;
+  const [datePart, timePart] = iso.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hours, minutes] = timePart ? timePart.split(':').map(Number) : [0, 0];
+  return Date.UTC(year, month - 1, day, hours, minutes);
+};
+
+/**
+ * Verifica se um valor de data atende ao filtro de período. Os limites
+ * são dias inteiros e inclusivos.
+ */
+export const matchesDateFilter = (value: unknown, filter: DateFilter): boolean => {
+  const time = dateValueToTime(value);
+  if (time === null) return false;
+
+  const from = filter.from ? dateValueToTime(filter.from) : null;
+  const to = filter.to ? dateValueToTime(filter.to) : null;
+
+  switch (filter.mode) {
+    case 'before':
+      return to === null || time < to;
+    case 'after':
+      return from === null || time >= from + MS_PER_DAY;
+    case 'between':
+    default:
+      return (from === null || time >= from) && (to === null || time < to + MS_PER_DAY);
+  }
+};
+
+export const isDateFilterActive = (filter: DateFilter | undefined): boolean =>
+  !!filter && ((filter.mode !== 'before' && !!filter.from) || (filter.mode !== 'after' && !!filter.to));
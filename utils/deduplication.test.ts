@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { Row } from '../types';
+import { collectRemovedRows, findDifferingColumns, findDuplicateGroups, pickSurvivor, resolveRowImportTimes } from './deduplication';
+
+const headers = ['RA', 'Nome', 'Email'];
+const rows: Row[] = [
+  { RA: '1', Nome: 'José', Email: 'jose@x' },
+  { RA: '2', Nome: 'Ana', Email: 'ana@x' },
+  { RA: '1', Nome: 'jose ', Email: null },
+  { RA: '1', Nome: 'José', Email: null },
+  { RA: '', Nome: '', Email: 'x' },
+  { RA: null, Nome: null, Email: 'y' },
+];
+
+describe('findDuplicateGroups', () => {
+  it('agrupa linhas com os mesmos valores nas colunas escolhidas', () => {
+    expect(findDuplicateGroups(rows, ['RA', 'Nome'])).toEqual([{ id: 'RA: 1, Nome: José', rowIndexes: [0, 3] }]);
+  });
+
+  it('com ignoreFormatting, junta valores que só diferem em acentos, maiúsculas ou espaços', () => {
+    expect(findDuplicateGroups(rows, ['RA', 'Nome'], true)).toEqual([{ id: 'RA: 1, Nome: José', rowIndexes: [0, 2, 3] }]);
+  });
+
+  it('não agrupa linhas com as colunas de identificação em branco', () => {
+    expect(findDuplicateGroups(rows, ['Nome'])).toEqual([{ id: 'Nome: José', rowIndexes: [0, 3] }]);
+  });
+});
+
+describe('pickSurvivor', () => {
+  const [group] = findDuplicateGroups(rows, ['RA']);
+  // A linha 0 foi atualizada pela importação mais recente
+  const importedAt = [300, 100, 200, 200, 100, 100];
+
+  it('mantém a linha importada por último, mesmo acima das outras', () => {
+    expect(pickSurvivor(rows, group, headers, 'newest', importedAt)).toBe(0);
+  });
+
+  it('entre linhas da mesma importação, fica a mais abaixo', () => {
+    expect(pickSurvivor(rows, { id: 'RA: 1', rowIndexes: [2, 3] }, headers, 'newest', importedAt)).toBe(3);
+  });
+
+  it('mantém a linha mais completa', () => {
+    expect(pickSurvivor(rows, group, headers, 'complete', importedAt)).toBe(0);
+  });
+
+  it('no empate de campos preenchidos, fica a importada por último', () => {
+    const times = [100, 100, 300, 200, 100, 100];
+    expect(pickSurvivor(rows, { id: 'RA: 1', rowIndexes: [2, 3] }, headers, 'complete', times)).toBe(2);
+  });
+});
+
+describe('resolveRowImportTimes', () => {
+  it('sem registro correspondente às linhas, conta tudo como 0', () => {
+    expect(resolveRowImportTimes(rows.slice(0, 2), [5, 7])).toEqual([5, 7]);
+    expect(resolveRowImportTimes(rows.slice(0, 2), [5])).toEqual([0, 0]);
+    expect(resolveRowImportTimes(rows.slice(0, 2), undefined)).toEqual([0, 0]);
+  });
+});
+
+describe('collectRemovedRows', () => {
+  it('remove todas as linhas do grupo menos a que fica', () => {
+    const groups = findDuplicateGroups(rows, ['RA']);
+    expect(collectRemovedRows(groups, [2])).toEqual([0, 3]);
+  });
+});
+
+describe('findDifferingColumns', () => {
+  it('lista as colunas com valores diferentes no grupo', () => {
+    const [group] = findDuplicateGroups(rows, ['RA']);
+    expect(findDifferingColumns(rows, group, headers)).toEqual(['Nome', 'Email']);
+  });
+});
@@ -0,0 +1,93 @@
+import type { Row } from '../types';
+
+type CellValue = Row[string];
+
+export type SurvivorRule = 'newest' | 'complete' | 'manual';
+
+export const SURVIVOR_RULES: Array<{ value: SurvivorRule; label: string; description: string }> = [
+  {
+    value: 'newest',
+    label: 'Importada por último',
+    description: 'Fica a linha que entrou ou foi atualizada na importação mais recente; entre linhas da mesma importação, a mais abaixo na planilha.',
+  },
+  { value: 'complete', label: 'Mais completa', description: 'Fica a linha com mais campos preenchidos; no empate, a importada por último.' },
+  { value: 'manual', label: 'Escolha manual', description: 'Escolha em cada grupo a linha que fica.' },
+];
+
+/**
+ * Linhas que representam o mesmo registro (índices na ordem da planilha).
+ */
+export interface DuplicateGroup {
+  id: string; // Valores das colunas de identificação, para exibição
+  rowIndexes: number[];
+}
+
+const formatValue = (value: CellValue | undefined) => (value === null || value === undefined ? '' : String(value));
+
+// Sem acentos, maiúsculas ou espaços repetidos: "  José  da Silva" = "jose da silva"
+const normalizeValue = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const isFilled = (value: CellValue | undefined) => formatValue(value).trim() !== '';
+
+/**
+ * Agrupa as linhas com os mesmos valores nas colunas de identificação. Com
+ * `ignoreFormatting`, valores que só diferem em acentos, maiúsculas ou espaços
+ * contam como iguais. Linhas com essas colunas em branco não são agrupadas.
+ */
+export const findDuplicateGroups = (rows: Row[], columns: string[], ignoreFormatting = false): DuplicateGroup[] => {
+  const groups = new Map<string, DuplicateGroup>();
+  rows.forEach((row, index) => {
+    const values = columns.map(column => formatValue(row[column]));
+    if (values.every(value => value.trim() === '')) return;
+
+    const key = JSON.stringify(ignoreFormatting ? values.map(normalizeValue) : values);
+    const group = groups.get(key);
+    if (group) {
+      group.rowIndexes.push(index);
+    } else {
+      groups.set(key, { id: columns.map((column, i) => `${column}: ${values[i]}`).join(', '), rowIndexes: [index] });
+    }
+  });
+  return Array.from(groups.values()).filter(group => group.rowIndexes.length > 1);
+};
+
+/**
+ * Momento de importação de cada linha, se o registro da planilha corresponder
+ * às linhas. Planilhas anteriores a ele contam tudo como 0.
+ */
+export const resolveRowImportTimes = (rows: Row[], rowImportedAt: number[] | undefined): number[] =>
+  rowImportedAt?.length === rows.length ? rowImportedAt : rows.map(() => 0);
+
+/**
+ * Linha que fica no grupo pela regra automática. A importada por último é a
+ * de maior momento de importação; no empate, a mais abaixo na planilha.
+ */
+export const pickSurvivor = (
+  rows: Row[],
+  group: DuplicateGroup,
+  headers: string[],
+  rule: SurvivorRule,
+  rowImportedAt: number[]
+): number => {
+  const isNewer = (index: number, best: number) => rowImportedAt[index] >= rowImportedAt[best];
+  if (rule !== 'complete') {
+    return group.rowIndexes.reduce((best, index) => (isNewer(index, best) ? index : best));
+  }
+
+  const filledCount = (index: number) => headers.filter(header => isFilled(rows[index][header])).length;
+  return group.rowIndexes.reduce((best, index) => {
+    const difference = filledCount(index) - filledCount(best);
+    return difference > 0 || (difference === 0 && isNewer(index, best)) ? index : best;
+  });
+};
+
+/**
+ * Índices das linhas removidas: todas as do grupo menos a que fica.
+ */
+export const collectRemovedRows = (groups: DuplicateGroup[], survivors: number[]): number[] =>
+  groups.flatMap((group, groupIndex) => group.rowIndexes.filter(index => index !== survivors[groupIndex]));
+
+// Colunas em que as linhas do grupo não têm todas o mesmo valor
+export const findDifferingColumns = (rows: Row[], group: DuplicateGroup, headers: string[]): string[] =>
+  headers.filter(header => new Set(group.rowIndexes.map(index => formatValue(rows[index][header]))).size > 1);
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectDecimalSeparator,
+  detectDelimiter,
+  detectEncoding,
+  parseDelimitedText,
+  parseLocaleNumber,
+  splitDelimitedText,
+  toCellValue,
+} from './delimitedText';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('detectEncoding', () => {
+  it('reconhece o BOM e o UTF-8 válido', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(encode('Matrícula;Nome'))).toBe('utf-8');
+  });
+
+  it('usa Windows-1252 quando o texto não é UTF-8', () => {
+    // "Matrícula" com o "í" em Windows-1252
+    expect(detectEncoding(new Uint8Array([0x4d, 0x61, 0x74, 0x72, 0xed, 0x63, 0x75, 0x6c, 0x61]))).toBe('windows-1252');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('escolhe o delimitador que se repete em todas as linhas', () => {
+    expect(detectDelimiter('RA;Nome;Nota\n1;Ana;7,5\n2;Bia;8')).toBe(';');
+    expect(detectDelimiter('RA\tNome\n1\tAna, Maria')).toBe('\t');
+  });
+
+  it('ignora delimitadores entre aspas', () => {
+    expect(detectDelimiter('RA,Nome\n1,"Silva; Ana"\n2,"Souza; Bia"')).toBe(',');
+  });
+
+  it('usa o palpite inicial sem delimitador no texto', () => {
+    expect(detectDelimiter('Nome\nAna', '\t')).toBe('\t');
+  });
+});
+
+describe('splitDelimitedText', () => {
+  it('respeita aspas, aspas duplicadas e quebras de linha entre aspas', () => {
+    expect(splitDelimitedText('a;"b;c"\r\n"d ""e""";"f\ng"\n', ';')).toEqual([
+      ['a', 'b;c'],
+      ['d "e"', 'f\ng'],
+    ]);
+  });
+});
+
+describe('detectDecimalSeparator', () => {
+  it('vota pelos valores que só fazem sentido em um formato', () => {
+    expect(detectDecimalSeparator([['1.234,56', '7,5']])).toBe(',');
+    expect(detectDecimalSeparator([['1,234.56', '7.5']])).toBe('.');
+  });
+});
+
+describe('parseLocaleNumber', () => {
+  it('converte no formato indicado', () => {
+    expect(parseLocaleNumber('1.234,56', ',')).toBe(1234.56);
+    expect(parseLocaleNumber('1,234.56', '.')).toBe(1234.56);
+    expect(parseLocaleNumber('-7', ',')).toBe(-7);
+  });
+
+  it('recusa textos que não são números no formato', () => {
+    expect(parseLocaleNumber('1.234,56', '.')).toBeNull();
+    expect(parseLocaleNumber('12/03/2024', ',')).toBeNull();
+    expect(parseLocaleNumber('0123', ',')).toBeNull();
+  });
+});
+
+describe('toCellValue', () => {
+  it('converte números e trata células vazias como nulas', () => {
+    expect(toCellValue(' 42 ', ',')).toBe(42);
+    expect(toCellValue('0', ',')).toBe(0);
+    expect(toCellValue('0,5', ',')).toBe(0.5);
+    expect(toCellValue('  ', ',')).toBeNull();
+  });
+
+  it('mantém como texto códigos com zero à esquerda ou longos demais', () => {
+    expect(toCellValue('00123', ',')).toBe('00123');
+    expect(toCellValue('1234567890123456', ',')).toBe('1234567890123456');
+    expect(toCellValue('123456789012345', ',')).toBe(123456789012345);
+  });
+});
+
+describe('parseDelimitedText', () => {
+  it('decodifica e converte cada célula', () => {
+    const bytes = encode('RA;Nota\n0042;7,5\n');
+    expect(parseDelimitedText(bytes, { encoding: 'utf-8', delimiter: ';', decimalSeparator: ',' })).toEqual([
+      ['RA', 'Nota'],
+      ['0042', 7.5],
+    ]);
+  });
+});
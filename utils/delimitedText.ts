@@ -0,0 +1,218 @@
+import type { CellValue, RawGrid } from './workbookParser';
+
+export type TextEncoding = 'utf-8' | 'windows-1252' | 'iso-8859-1' | 'utf-16le';
+export type Delimiter = ';' | ',' | '\t' | '|';
+export type DecimalSeparator = ',' | '.';
+
+export interface TextImportOptions {
+  encoding: TextEncoding;
+  delimiter: Delimiter;
+  decimalSeparator: DecimalSeparator;
+}
+
+export const TEXT_ENCODINGS: Array<{ value: TextEncoding; label: string }> = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (ANSI)' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'utf-16le', label: 'UTF-16' },
+];
+
+export const DELIMITERS: Array<{ value: Delimiter; label: string }> = [
+  { value: ';', label: 'Ponto e vírgula (;)' },
+  { value: ',', label: 'Vírgula (,)' },
+  { value: '\t', label: 'Tabulação' },
+  { value: '|', label: 'Barra vertical (|)' },
+];
+
+export const DECIMAL_SEPARATORS: Array<{ value: DecimalSeparator; label: string }> = [
+  { value: ',', label: 'Vírgula (1.234,56)' },
+  { value: '.', label: 'Ponto (1,234.56)' },
+];
+
+// Linhas usadas para detectar delimitador e separador decimal
+const SAMPLE_LINES = 50;
+
+/**
+ * Detecta a codificação pelo BOM ou, na falta dele, tentando decodificar
+ * como UTF-8 estrito. Exportações do Windows costumam vir em Windows-1252.
+ */
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding): string => {
+  // O TextDecoder já descarta o BOM da codificação correspondente
+  return new TextDecoder(encoding).decode(bytes);
+};
+
+/**
+ * Conta ocorrências do caractere fora de aspas em uma linha.
+ */
+const countOutsideQuotes = (line: string, char: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const c of line) {
+    if (c === '"') inQuotes = !inQuotes;
+    else if (c === char && !inQuotes) count++;
+  }
+  return count;
+};
+
+/**
+ * Escolhe o delimitador que aparece de forma mais consistente nas primeiras
+ * linhas (mesma quantidade em quase todas elas).
+ */
+export const detectDelimiter = (text: string, fallback: Delimiter = ';'): Delimiter => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, SAMPLE_LINES);
+  if (lines.length === 0) return fallback;
+
+  let best: { delimiter: Delimiter; score: number } = { delimiter: fallback, score: 0 };
+
+  DELIMITERS.forEach(({ value }) => {
+    const counts = lines.map(line => countOutsideQuotes(line, value)).filter(count => count > 0);
+    if (counts.length === 0) return;
+
+    // Moda das contagens: colunas por linha mais frequente
+    const frequency = new Map<number, number>();
+    counts.forEach(count => frequency.set(count, (frequency.get(count) || 0) + 1));
+    const [mode, modeFrequency] = [...frequency.entries()].sort((a, b) => b[1] - a[1])[0];
+
+    const score = (modeFrequency / lines.length) * 100 + mode;
+    if (score > best.score) {
+      best = { delimiter: value, score };
+    }
+  });
+
+  return best.delimiter;
+};
+
+/**
+ * Divide o texto em linhas e células, respeitando aspas duplas (RFC 4180).
+ */
+export const splitDelimitedText = (text: string, delimiter: Delimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+
+    if (inQuotes) {
+      if (c === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += c;
+      }
+      continue;
+    }
+
+    if (c === '"') {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const COMMA_DECIMAL = /^-?\d{1,3}(\.\d{3})*,\d+$|^-?\d+,\d+$/;
+const DOT_DECIMAL = /^-?\d{1,3}(,\d{3})*\.\d+$|^-?\d+\.\d+$/;
+
+/**
+ * Decide o separador decimal olhando os valores que só fazem sentido
+ * em um dos formatos.
+ */
+export const detectDecimalSeparator = (grid: string[][]): DecimalSeparator => {
+  let commaVotes = 0;
+  let dotVotes = 0;
+
+  grid.slice(0, SAMPLE_LINES * 4).forEach(row => row.forEach(cell => {
+    const value = cell.trim();
+    if (COMMA_DECIMAL.test(value)) commaVotes++;
+    else if (DOT_DECIMAL.test(value)) dotVotes++;
+  }));
+
+  return dotVotes > commaVotes ? '.' : ',';
+};
+
+/**
+ * Converte um texto numérico no formato indicado. Inteiros com zero à
+ * esquerda (matrículas, CPFs, códigos) continuam como texto.
+ */
+export const parseLocaleNumber = (value: string, decimalSeparator: DecimalSeparator): number | null => {
+  const trimmed = value.trim();
+  if (!/^-?[\d.,]+$/.test(trimmed) || !/\d/.test(trimmed)) return null;
+  if (/^-?0\d/.test(trimmed)) return null;
+
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  const pattern = decimalSeparator === ','
+    ? /^-?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/
+    : /^-?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+  if (!pattern.test(trimmed)) return null;
+
+  const normalized = trimmed.split(thousandsSeparator).join('').replace(decimalSeparator, '.');
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Só dígitos, com zero à esquerda ou mais de 15 dígitos (além da precisão de
+// um número): matrículas, CPFs, códigos de barras
+const isDigitCode = (value: string) => /^\d+$/.test(value) && (/^0\d/.test(value) || value.length > 15);
+
+export const toCellValue = (raw: string, decimalSeparator: DecimalSeparator): CellValue => {
+  const value = raw.trim();
+  if (value === '') return null;
+  if (isDigitCode(value)) return value;
+  const number = parseLocaleNumber(value, decimalSeparator);
+  return number !== null ? number : value;
+};
+
+/**
+ * Detecta codificação, delimitador e separador decimal de um arquivo texto.
+ * tabDefault indica arquivos .tsv, em que a tabulação é o palpite inicial.
+ */
+export const detectTextImportOptions = (bytes: Uint8Array, tabDefault = false): TextImportOptions => {
+  const encoding = detectEncoding(bytes);
+  const text = decodeText(bytes, encoding);
+  const delimiter = detectDelimiter(text, tabDefault ? '\t' : ';');
+  const decimalSeparator = detectDecimalSeparator(splitDelimitedText(text.slice(0, 64 * 1024), delimiter));
+  return { encoding, delimiter, decimalSeparator };
+};
+
+/**
+ * Converte o conteúdo de um arquivo CSV/TSV em grade bruta.
+ */
+export const parseDelimitedText = (bytes: Uint8Array, options: TextImportOptions): RawGrid => {
+  const text = decodeText(bytes, options.encoding);
+  return splitDelimitedText(text, options.delimiter)
+    .map(row => row.map(cell => toCellValue(cell, options.decimalSeparator)));
+};
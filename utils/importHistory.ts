@@ -0,0 +1,18 @@
+import type { ImportLogEntry } from '../types';
+
+// Importações guardadas no histórico de cada planilha
+export const IMPORT_HISTORY_LIMIT = 50;
+
+/**
+ * Junta históricos de importação: sem entradas repetidas (mesmo id), mais
+ * recentes primeiro e limitado a IMPORT_HISTORY_LIMIT.
+ */
+export const mergeImportHistories = (...histories: Array<ImportLogEntry[] | undefined>): ImportLogEntry[] => {
+  const entries = new Map<string, ImportLogEntry>();
+  histories.forEach(history => history?.forEach(entry => {
+    if (!entries.has(entry.id)) entries.set(entry.id, entry);
+  }));
+  return Array.from(entries.values())
+    .sort((a, b) => b.importedAt.localeCompare(a.importedAt))
+    .slice(0, IMPORT_HISTORY_LIMIT);
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { ImportProfile } from '../types';
+import { computeHeaderSignature, findMatchingProfile } from './importProfiles';
+import { analyzeGrid } from './workbookParser';
+
+const buildProfile = (headers: string[], overrides: Partial<ImportProfile> = {}): ImportProfile => ({
+  id: 'ofertas',
+  name: 'Ofertas',
+  headerSignature: computeHeaderSignature(headers),
+  headerRowIndex: 0,
+  headerRowCount: 1,
+  skipRows: 0,
+  customColumns: [],
+  columnTypes: {},
+  hiddenColumns: [],
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('computeHeaderSignature', () => {
+  it('ignora acentos, maiúsculas e espaços extras, mas não a ordem', () => {
+    expect(computeHeaderSignature(['Código ', 'Nome  do Curso'])).toBe('codigo|nome do curso');
+    expect(computeHeaderSignature(['CODIGO', 'nome do curso'])).toBe(computeHeaderSignature(['Código', 'Nome do Curso']));
+    expect(computeHeaderSignature(['Nome do Curso', 'Código'])).not.toBe(computeHeaderSignature(['Código', 'Nome do Curso']));
+  });
+});
+
+describe('findMatchingProfile', () => {
+  const sheet = analyzeGrid('Ofertas', [
+    ['Relatório de ofertas', null],
+    ['Código', 'Turma'],
+    [101, 'A'],
+  ])!;
+
+  it('reconhece o cabeçalho em outra linha que não a salva no perfil', () => {
+    const match = findMatchingProfile(sheet, [buildProfile(['codigo', 'turma'])]);
+    expect(match?.profile.id).toBe('ofertas');
+    expect(match?.headerRowIndex).toBe(1);
+  });
+
+  it('não reconhece cabeçalhos diferentes', () => {
+    expect(findMatchingProfile(sheet, [buildProfile(['Código', 'Sala'])])).toBeNull();
+  });
+});
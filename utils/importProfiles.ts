@@ -0,0 +1,84 @@
+import type { ImportProfile } from '../types';
+import { resolveWorksheetHeaders } from './workbookParser';
+import type { ParsedWorksheet, SheetBuildOptions } from './workbookParser';
+
+const STORAGE_PROFILES_KEY = 'importProfiles';
+
+export const loadImportProfiles = (): ImportProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_PROFILES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading import profiles:', error);
+    return [];
+  }
+};
+
+const persistImportProfiles = (profiles: ImportProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_PROFILES_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Error saving import profiles:', error);
+    alert('Erro ao salvar o perfil de importação. O armazenamento local pode estar cheio.');
+  }
+};
+
+/**
+ * Salva o perfil, substituindo outro com o mesmo nome. Devolve a lista atualizada.
+ */
+export const saveImportProfile = (profile: ImportProfile): ImportProfile[] => {
+  const profiles = loadImportProfiles().filter(p => p.id !== profile.id && p.name !== profile.name);
+  const updated = [...profiles, profile].sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
+  persistImportProfiles(updated);
+  return updated;
+};
+
+export const deleteImportProfile = (profileId: string): ImportProfile[] => {
+  const updated = loadImportProfiles().filter(p => p.id !== profileId);
+  persistImportProfiles(updated);
+  return updated;
+};
+
+/**
+ * Assinatura do cabeçalho: nomes sem acento, caixa ou espaços extras, na
+ * ordem do arquivo. Arquivos do mesmo tipo geram a mesma assinatura.
+ */
+export const computeHeaderSignature = (headers: string[]): string =>
+  headers
+    .map(header => header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim().toLowerCase())
+    .join('|');
+
+export const getProfileBuildOptions = (profile: ImportProfile, headerRowIndex = profile.headerRowIndex): SheetBuildOptions => ({
+  headerRowIndex,
+  headerRowCount: profile.headerRowCount,
+  skipRows: profile.skipRows,
+});
+
+export interface ProfileMatch {
+  profile: ImportProfile;
+  headerRowIndex: number; // Linha onde o cabeçalho do perfil foi encontrado neste arquivo
+}
+
+/**
+ * Procura um perfil cujo cabeçalho apareça na aba. Testa primeiro a linha
+ * salva no perfil e depois os candidatos detectados, para aceitar arquivos
+ * com linhas de título a mais ou a menos.
+ */
+export const findMatchingProfile = (sheet: ParsedWorksheet, profiles: ImportProfile[]): ProfileMatch | null => {
+  for (const profile of profiles) {
+    const rowIndexes = [profile.headerRowIndex, ...sheet.headerCandidates.map(c => c.rowIndex)]
+      .filter((rowIndex, i, all) => all.indexOf(rowIndex) === i);
+
+    for (const headerRowIndex of rowIndexes) {
+      try {
+        const { headers } = resolveWorksheetHeaders(sheet, getProfileBuildOptions(profile, headerRowIndex));
+        if (computeHeaderSignature(headers) === profile.headerSignature) {
+          return { profile, headerRowIndex };
+        }
+      } catch {
+        // Linha inexistente ou sem colunas nesta aba: tentar a próxima
+      }
+    }
+  }
+  return null;
+};
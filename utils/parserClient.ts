@@ -0,0 +1,172 @@
+import { ParseError } from './workbookParser';
+import type { ParsedWorkbook, ParseErrorCode } from './workbookParser';
+
+// Mensagens trocadas com o worker de importação
+export type ParserRequest = {
+  type: 'parse';
+  fileName: string;
+  buffer: ArrayBuffer;
+};
+
+export type ParserResponse =
+  | { type: 'progress'; rowsParsed: number }
+  | { type: 'done'; workbook: ParsedWorkbook }
+  | { type: 'error'; code: ParseErrorCode; message: string };
+
+export interface ImportErrorInfo {
+  fileName: string;
+  code: ParseErrorCode;
+  message: string;
+}
+
+export interface ParseProgress {
+  fileName: string;
+  fileIndex: number; // 0-based
+  fileCount: number;
+  bytesRead: number;
+  bytesTotal: number;
+  rowsParsed: number;
+  stage: 'reading' | 'parsing';
+}
+
+export interface ParseBatchResult {
+  workbooks: ParsedWorkbook[];
+  errors: ImportErrorInfo[];
+  cancelled: boolean;
+}
+
+export interface ParseJob {
+  promise: Promise<ParseBatchResult>;
+  cancel: () => void;
+}
+
+const createParserWorker = (): Worker =>
+  new Worker(new URL('../workers/workbookParser.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Lê o arquivo como ArrayBuffer, informando quantos bytes já foram lidos.
+ */
+const readFileWithProgress = (
+  file: File,
+  onProgress: (bytesRead: number) => void,
+  registerAbort: (abort: () => void) => void
+): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    registerAbort(() => reader.abort());
+
+    reader.onprogress = (e) => onProgress(e.loaded);
+    reader.onload = (e) => {
+      const result = e.target?.result;
+      if (!result || typeof result === 'string') {
+        reject(new ParseError('read-failed', `${file.name}: Não foi possível ler o arquivo.`));
+        return;
+      }
+      resolve(result);
+    };
+    reader.onabort = () => reject(new ParseError('cancelled', 'Importação cancelada.'));
+    reader.onerror = () => reject(new ParseError('read-failed', `${file.name}: Erro ao ler o arquivo.`));
+    reader.readAsArrayBuffer(file);
+  });
+};
+
+/**
+ * Envia um arquivo já lido ao worker e aguarda o resultado.
+ */
+const parseInWorker = (
+  worker: Worker,
+  fileName: string,
+  buffer: ArrayBuffer,
+  onRowsParsed: (rows: number) => void
+): Promise<ParsedWorkbook> => {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<ParserResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onRowsParsed(message.rowsParsed);
+      } else if (message.type === 'done') {
+        resolve(message.workbook);
+      } else {
+        reject(new ParseError(message.code, message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      reject(new ParseError('unknown', `${fileName}: ${e.message || 'Erro inesperado ao processar o arquivo.'}`));
+    };
+
+    const request: ParserRequest = { type: 'parse', fileName, buffer };
+    worker.postMessage(request, [buffer]);
+  });
+};
+
+/**
+ * Lê e interpreta os arquivos em sequência fora da thread principal.
+ * Arquivos com erro não interrompem os demais; os erros voltam no resultado.
+ * cancel() interrompe a leitura e encerra o worker imediatamente.
+ */
+export const startParseJob = (files: File[], onProgress: (progress: ParseProgress) => void): ParseJob => {
+  let worker: Worker | null = null;
+  let abortRead: (() => void) | null = null;
+  let cancelled = false;
+  let resolveCancel: (() => void) | null = null;
+  const cancelSignal = new Promise<void>(resolve => { resolveCancel = resolve; });
+
+  const run = async (): Promise<ParseBatchResult> => {
+    const workbooks: ParsedWorkbook[] = [];
+    const errors: ImportErrorInfo[] = [];
+
+    for (let fileIndex = 0; fileIndex < files.length && !cancelled; fileIndex++) {
+      const file = files[fileIndex];
+      const base = { fileName: file.name, fileIndex, fileCount: files.length, bytesTotal: file.size };
+      let bytesRead = 0;
+
+      try {
+        onProgress({ ...base, bytesRead, rowsParsed: 0, stage: 'reading' });
+        const buffer = await readFileWithProgress(
+          file,
+          loaded => {
+            bytesRead = loaded;
+            onProgress({ ...base, bytesRead, rowsParsed: 0, stage: 'reading' });
+          },
+          abort => { abortRead = abort; }
+        );
+        abortRead = null;
+        bytesRead = file.size;
+
+        onProgress({ ...base, bytesRead, rowsParsed: 0, stage: 'parsing' });
+        if (!worker) worker = createParserWorker();
+        const workbook = await Promise.race([
+          parseInWorker(worker, file.name, buffer, rowsParsed => {
+            onProgress({ ...base, bytesRead, rowsParsed, stage: 'parsing' });
+          }),
+          cancelSignal.then(() => { throw new ParseError('cancelled', 'Importação cancelada.'); }),
+        ]);
+        workbooks.push(workbook);
+      } catch (error) {
+        if (cancelled) break;
+        console.error(error);
+        errors.push({
+          fileName: file.name,
+          code: error instanceof ParseError ? error.code : 'unknown',
+          message: error instanceof Error ? error.message : `Erro ao processar ${file.name}`,
+        });
+      }
+    }
+
+    worker?.terminate();
+    return { workbooks: cancelled ? [] : workbooks, errors, cancelled };
+  };
+
+  return {
+    promise: run(),
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      abortRead?.();
+      worker?.terminate();
+      worker = null;
+      resolveCancel?.();
+    },
+  };
+};
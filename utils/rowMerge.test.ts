@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { Row } from '../types';
+import { applyMergePlan, findDuplicateKeys, planMerge, resolveKeyColumns } from './rowMerge';
+
+const headers = ['RA', 'Nome', 'Curso'];
+const existing: Row[] = [
+  { RA: '1', Nome: 'Ana', Curso: 'Direito' },
+  { RA: '2', Nome: 'Bia', Curso: 'Letras' },
+];
+const incoming: Row[] = [
+  { RA: '1', Nome: 'Ana', Curso: 'Medicina' },
+  { RA: '3', Nome: 'Caio', Curso: 'Física' },
+];
+
+const kinds = (rows: Row[], strategy: Parameters<typeof planMerge>[4], keyColumns = ['RA']) =>
+  planMerge(existing, rows, headers, keyColumns, strategy).entries.map(entry => entry.kind);
+
+describe('resolveKeyColumns', () => {
+  it('descarta colunas-chave que não existem mais', () => {
+    expect(resolveKeyColumns(['RA', 'Turma'], headers)).toEqual(['RA']);
+    expect(resolveKeyColumns(undefined, headers)).toEqual([]);
+  });
+});
+
+describe('findDuplicateKeys', () => {
+  it('conta as chaves repetidas e ignora chaves em branco', () => {
+    const rows: Row[] = [{ RA: '1' }, { RA: '1' }, { RA: '' }, { RA: null }, { RA: '2' }];
+    expect(findDuplicateKeys(rows, ['RA'])).toEqual(new Map([['RA: 1', 2]]));
+  });
+});
+
+describe('planMerge', () => {
+  it('atualiza pela chave e lista os campos alterados', () => {
+    const plan = planMerge(existing, incoming, headers, ['RA']);
+    expect(plan.entries.map(entry => entry.kind)).toEqual(['updated', 'new']);
+    expect(plan.entries[0].changes).toEqual([{ column: 'Curso', before: 'Direito', after: 'Medicina' }]);
+  });
+
+  it('sem colunas-chave, só reconhece linhas idênticas', () => {
+    expect(kinds(incoming, 'upsert', [])).toEqual(['new', 'new']);
+    expect(kinds([existing[1]], 'upsert', [])).toEqual(['unchanged']);
+  });
+
+  it('reúne linhas recebidas com a mesma chave, ficando a última versão', () => {
+    const plan = planMerge(existing, [{ RA: '3', Nome: 'Caio' }, { RA: '3', Curso: 'Química' }], headers, ['RA']);
+    expect(plan.entries).toHaveLength(1);
+    expect(plan.entries[0].row).toEqual({ RA: '3', Nome: 'Caio', Curso: 'Química' });
+  });
+
+  it('trata linhas com a chave em branco como novas', () => {
+    expect(kinds([{ RA: '', Nome: 'Sem RA' }, { RA: '', Nome: 'Sem RA' }], 'upsert')).toEqual(['new', 'new']);
+  });
+
+  it('segue a estratégia escolhida', () => {
+    expect(kinds(incoming, 'append')).toEqual(['unchanged', 'new']);
+    expect(kinds(incoming, 'sync')).toEqual(['updated', 'new', 'removed']);
+    expect(kinds(incoming, 'replace')).toEqual(['removed', 'removed', 'new', 'new']);
+  });
+});
+
+describe('applyMergePlan', () => {
+  it('aplica as entradas aceitas e conta o resultado', () => {
+    const plan = planMerge(existing, incoming, headers, ['RA'], 'sync');
+    expect(applyMergePlan(existing, plan)).toEqual({
+      rows: [{ RA: '1', Nome: 'Ana', Curso: 'Medicina' }, { RA: '3', Nome: 'Caio', Curso: 'Física' }],
+      added: 1,
+      updated: 1,
+      removed: 1,
+    });
+  });
+
+  it('mantém os valores das colunas que o arquivo não trouxe', () => {
+    const withoutCourse: Row[] = [{ RA: '1', Nome: 'Ana Maria' }, { RA: '2', Nome: 'Bia' }];
+    const plan = planMerge(existing, withoutCourse, headers, ['RA'], 'sync');
+    expect(plan.entries.map(entry => entry.kind)).toEqual(['updated', 'unchanged']);
+    expect(plan.entries[0].changes).toEqual([{ column: 'Nome', before: 'Ana', after: 'Ana Maria' }]);
+    expect(applyMergePlan(existing, plan).rows).toEqual([
+      { RA: '1', Nome: 'Ana Maria', Curso: 'Direito' },
+      { RA: '2', Nome: 'Bia', Curso: 'Letras' },
+    ]);
+  });
+
+  it('registra quando cada linha foi importada', () => {
+    const plan = planMerge(existing, incoming, headers, ['RA'], 'upsert');
+    expect(applyMergePlan(existing, plan, undefined, { existing: [10, 20], importedAt: 30 }).rowImportedAt).toEqual([30, 20, 30]);
+    expect(applyMergePlan(existing, plan, undefined, { importedAt: 30 }).rowImportedAt).toEqual([30, 0, 30]);
+  });
+
+  it('ignora as entradas recusadas', () => {
+    const plan = planMerge(existing, incoming, headers, ['RA'], 'sync');
+    const result = applyMergePlan(existing, plan, index => plan.entries[index].kind !== 'removed');
+    expect(result.rows).toHaveLength(3);
+    expect(result.removed).toBe(0);
+  });
+});
@@ -0,0 +1,211 @@
+import type { MergeStrategy, Row } from '../types';
+
+type CellValue = Row[string];
+
+export interface FieldChange {
+  column: string;
+  before: CellValue;
+  after: CellValue;
+}
+
+export type MergeEntryKind = 'new' | 'updated' | 'unchanged' | 'removed';
+
+/**
+ * Resultado previsto para um registro. Linhas recebidas com a mesma chave são
+ * reunidas em uma única entrada.
+ */
+export interface MergeEntry {
+  kind: MergeEntryKind;
+  id: string; // Valores das colunas-chave, para exibição
+  row: Row; // Linha recebida (a última versão, se a chave se repetir); em 'removed', a existente
+  existingIndex?: number; // Linha existente com a mesma chave
+  changes: FieldChange[];
+}
+
+export interface MergePlan {
+  strategy: MergeStrategy;
+  keyColumns: string[]; // Vazio: registros comparados pela linha inteira
+  entries: MergeEntry[];
+}
+
+export const MERGE_STRATEGIES: Array<{ value: MergeStrategy; label: string; description: string }> = [
+  { value: 'upsert', label: 'Atualizar e acrescentar', description: 'Registros existentes são atualizados e os novos, acrescentados.' },
+  { value: 'append', label: 'Só acrescentar', description: 'Só entram registros novos; os existentes não são alterados.' },
+  { value: 'sync', label: 'Sincronizar', description: 'Como "Atualizar e acrescentar", removendo os registros que não estão nos novos dados.' },
+  { value: 'replace', label: 'Substituir tudo', description: 'Todas as linhas da planilha são trocadas pelos novos dados.' },
+];
+
+export const DEFAULT_MERGE_STRATEGY: MergeStrategy = 'upsert';
+
+const normalizeValue = (value: CellValue | undefined): CellValue => (value === undefined ? null : value);
+
+const formatKeyValue = (value: CellValue | undefined) => (value === null || value === undefined ? '' : String(value));
+
+// Colunas-chave que ainda existem na planilha
+export const resolveKeyColumns = (keyColumns: string[] | undefined, headers: string[]): string[] =>
+  (keyColumns ?? []).filter(column => headers.includes(column));
+
+// Sem colunas-chave, a linha inteira identifica o registro
+const buildRowKey = (row: Row, keyColumns: string[]): string =>
+  JSON.stringify(keyColumns.map(column => formatKeyValue(row[column])));
+
+const describeRowKey = (row: Row, keyColumns: string[], useWholeRow: boolean): string =>
+  useWholeRow
+    ? keyColumns.map(column => formatKeyValue(row[column])).join(' | ').substring(0, 80)
+    : keyColumns.map(column => `${column}: ${formatKeyValue(row[column])}`).join(', ');
+
+const isBlankKey = (row: Row, keyColumns: string[]) =>
+  keyColumns.every(column => formatKeyValue(row[column]).trim() === '');
+
+/**
+ * Chaves que aparecem em mais de uma linha, com a quantidade de linhas de cada.
+ */
+export const findDuplicateKeys = (rows: Row[], keyColumns: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    if (isBlankKey(row, keyColumns)) return;
+    const id = describeRowKey(row, keyColumns, false);
+    counts.set(id, (counts.get(id) ?? 0) + 1);
+  });
+  return new Map(Array.from(counts).filter(([, count]) => count > 1));
+};
+
+const diffRows = (existing: Row, incoming: Row, headers: string[]): FieldChange[] =>
+  headers
+    .filter(column => column in incoming && normalizeValue(existing[column]) !== normalizeValue(incoming[column]))
+    .map(column => ({ column, before: normalizeValue(existing[column]), after: normalizeValue(incoming[column]) }));
+
+/**
+ * Simula a mesclagem sem alterar nada. Com colunas-chave, a linha com a mesma
+ * chave é atualizada e a entrada lista os campos alterados; sem elas, só
+ * linhas idênticas são reconhecidas. Linhas com a chave em branco entram
+ * sempre como novas. Colunas que a linha recebida não traz ficam fora da
+ * comparação. Na sincronização, saem as linhas existentes que não
+ * foram reconhecidas (inclusive chaves repetidas além da primeira).
+ */
+export const planMerge = (
+  existingRows: Row[],
+  incomingRows: Row[],
+  headers: string[],
+  keyColumns: string[] = [],
+  strategy: MergeStrategy = DEFAULT_MERGE_STRATEGY
+): MergePlan => {
+  const useWholeRow = keyColumns.length === 0;
+  const matchColumns = useWholeRow ? headers : keyColumns;
+  const entries: MergeEntry[] = [];
+
+  if (strategy === 'replace') {
+    existingRows.forEach((row, existingIndex) => {
+      entries.push({ kind: 'removed', id: describeRowKey(row, matchColumns, useWholeRow), row, existingIndex, changes: [] });
+    });
+    incomingRows.forEach(row => {
+      entries.push({ kind: 'new', id: describeRowKey(row, matchColumns, useWholeRow), row, changes: [] });
+    });
+    return { strategy, keyColumns, entries };
+  }
+
+  // Primeira linha de cada chave; as repetidas ficam como estão
+  const existingIndexByKey = new Map<string, number>();
+  existingRows.forEach((row, index) => {
+    if (isBlankKey(row, matchColumns)) return;
+    const key = buildRowKey(row, matchColumns);
+    if (!existingIndexByKey.has(key)) existingIndexByKey.set(key, index);
+  });
+  const entryIndexByKey = new Map<string, number>();
+
+  incomingRows.forEach(incoming => {
+    const id = describeRowKey(incoming, matchColumns, useWholeRow);
+    if (isBlankKey(incoming, matchColumns)) {
+      entries.push({ kind: 'new', id, row: incoming, changes: [] });
+      return;
+    }
+
+    const key = buildRowKey(incoming, matchColumns);
+    const entryIndex = entryIndexByKey.get(key);
+    const previous = entryIndex === undefined ? undefined : entries[entryIndex];
+    const row = previous ? { ...previous.row, ...incoming } : incoming;
+    const existingIndex = existingIndexByKey.get(key);
+
+    let entry: MergeEntry;
+    if (existingIndex === undefined) {
+      entry = { kind: 'new', id, row, changes: [] };
+    } else if (strategy === 'append') {
+      // A linha existente fica como está
+      entry = { kind: 'unchanged', id, row, existingIndex, changes: [] };
+    } else {
+      const changes = diffRows(existingRows[existingIndex], row, headers);
+      entry = { kind: changes.length > 0 ? 'updated' : 'unchanged', id, row, existingIndex, changes };
+    }
+
+    if (entryIndex === undefined) {
+      entryIndexByKey.set(key, entries.length);
+      entries.push(entry);
+    } else {
+      entries[entryIndex] = entry;
+    }
+  });
+
+  if (strategy === 'sync') {
+    const matchedIndexes = new Set(entries.map(entry => entry.existingIndex));
+    existingRows.forEach((row, existingIndex) => {
+      if (matchedIndexes.has(existingIndex)) return;
+      entries.push({ kind: 'removed', id: describeRowKey(row, matchColumns, useWholeRow), row, existingIndex, changes: [] });
+    });
+  }
+
+  return { strategy, keyColumns, entries };
+};
+
+// Momento de importação das linhas existentes e o da importação em curso
+export interface ImportTimes {
+  existing?: number[];
+  importedAt: number;
+}
+
+/**
+ * Aplica as entradas aceitas do plano às linhas existentes. Linhas removidas
+ * saem e as novas vão para o fim, na ordem do plano. Nas atualizadas, as
+ * colunas que a linha recebida não traz mantêm o valor existente. Com
+ * `importTimes`, devolve também o momento de importação de cada linha: as
+ * novas e as atualizadas recebem o da importação em curso.
+ */
+export const applyMergePlan = (
+  existingRows: Row[],
+  plan: MergePlan,
+  isAccepted: (entryIndex: number) => boolean = () => true,
+  importTimes?: ImportTimes
+): { rows: Row[]; added: number; updated: number; removed: number; rowImportedAt?: number[] } => {
+  const rows = [...existingRows];
+  // Sem registro (ou fora de ordem com as linhas), as existentes ficam com 0
+  let times: number[] = [];
+  if (importTimes) {
+    times = importTimes.existing?.length === existingRows.length ? [...importTimes.existing] : existingRows.map(() => 0);
+  }
+  const removedIndexes = new Set<number>();
+  const addedRows: Row[] = [];
+  let updated = 0;
+
+  plan.entries.forEach((entry, index) => {
+    if (entry.kind === 'unchanged' || !isAccepted(index)) return;
+    if (entry.kind === 'removed' && entry.existingIndex !== undefined) {
+      removedIndexes.add(entry.existingIndex);
+    } else if (entry.kind === 'updated' && entry.existingIndex !== undefined) {
+      rows[entry.existingIndex] = { ...rows[entry.existingIndex], ...entry.row };
+      if (importTimes) times[entry.existingIndex] = importTimes.importedAt;
+      updated++;
+    } else if (entry.kind === 'new') {
+      addedRows.push(entry.row);
+    }
+  });
+
+  const isKept = (_: unknown, index: number) => !removedIndexes.has(index);
+  return {
+    rows: [...rows.filter(isKept), ...addedRows],
+    added: addedRows.length,
+    updated,
+    removed: removedIndexes.size,
+    ...(importTimes
+      ? { rowImportedAt: [...times.filter(isKept), ...addedRows.map(() => importTimes.importedAt)] }
+      : {}),
+  };
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { describeSchemaEvolution, diffHeaders, evolveSheet, planSchemaEvolution, suggestColumnRenames } from './schemaEvolution';
+import { buildStoredSheet } from './testFixtures';
+
+const buildSheet = () =>
+  buildStoredSheet(
+    {
+      headers: ['RA', 'Nome Aluno', 'Nota'],
+      rows: [{ RA: '1', 'Nome Aluno': 'Ana', Nota: 7.5 }],
+      columnTypes: { RA: 'identifier', 'Nome Aluno': 'text', Nota: 'decimal' },
+      decimalSeparators: { Nota: ',' },
+    },
+    { visibleColumns: ['RA', 'Nome Aluno'], keyColumns: ['RA', 'Nome Aluno'] }
+  );
+
+describe('diffHeaders', () => {
+  it('lista as colunas novas e as ausentes', () => {
+    expect(diffHeaders(['A', 'B'], ['B', 'C'])).toEqual({ added: ['C'], removed: ['A'] });
+  });
+});
+
+describe('suggestColumnRenames', () => {
+  it('sugere nomes que só diferem em acentos, maiúsculas ou pontuação', () => {
+    expect(suggestColumnRenames(['Código', 'Turma'], ['CODIGO', 'Sala'])).toEqual({ 'Código': 'CODIGO' });
+  });
+
+  it('não usa o mesmo nome novo duas vezes', () => {
+    expect(suggestColumnRenames(['Cód.', 'cod'], ['COD'])).toEqual({ 'Cód.': 'COD' });
+  });
+});
+
+describe('planSchemaEvolution', () => {
+  it('devolve null quando as colunas não mudaram', () => {
+    expect(planSchemaEvolution(['A', 'B'], { headers: ['B', 'A'], rows: [] })).toBeNull();
+  });
+
+  it('registra renomeações válidas e colunas novas com o tipo recebido', () => {
+    const evolution = planSchemaEvolution(
+      ['RA', 'Nome Aluno'],
+      { headers: ['RA', 'Nome', 'Email'], rows: [], columnTypes: { Email: 'text' } },
+      { 'Nome Aluno': 'Nome', Curso: 'Email' }
+    );
+    expect(evolution).toEqual({ renames: { 'Nome Aluno': 'Nome' }, addedColumns: ['Email'], addedColumnTypes: { Email: 'text' } });
+    expect(describeSchemaEvolution(evolution!)).toBe('Colunas novas: Email; "Nome Aluno" renomeada para "Nome"');
+  });
+});
+
+describe('evolveSheet', () => {
+  it('renomeia cabeçalhos, linhas, tipos e colunas visíveis e chave', () => {
+    const evolved = evolveSheet(buildSheet(), { renames: { 'Nome Aluno': 'Nome' }, addedColumns: [], addedColumnTypes: {} });
+    expect(evolved.data.headers).toEqual(['RA', 'Nome', 'Nota']);
+    expect(evolved.data.rows).toEqual([{ RA: '1', Nome: 'Ana', Nota: 7.5 }]);
+    expect(evolved.data.columnTypes).toEqual({ RA: 'identifier', Nome: 'text', Nota: 'decimal' });
+    expect(evolved.visibleColumns).toEqual(['RA', 'Nome']);
+    expect(evolved.keyColumns).toEqual(['RA', 'Nome']);
+  });
+
+  it('acrescenta colunas novas visíveis e vazias nas linhas existentes', () => {
+    const evolved = evolveSheet(buildSheet(), { renames: {}, addedColumns: ['Email'], addedColumnTypes: { Email: 'text' } });
+    expect(evolved.data.headers).toEqual(['RA', 'Nome Aluno', 'Nota', 'Email']);
+    expect(evolved.data.rows[0].Email).toBeNull();
+    expect(evolved.data.columnTypes?.Email).toBe('text');
+    expect(evolved.visibleColumns).toEqual(['RA', 'Nome Aluno', 'Email']);
+    expect(evolved.data.decimalSeparators).toEqual({ Nota: ',' });
+  });
+});
@@ -0,0 +1,115 @@
+import type { ColumnType, Row, SheetData, StoredSheet } from '../types';
+
+/**
+ * Mudança de colunas ao atualizar uma planilha com dados de outro formato.
+ */
+export interface SchemaEvolution {
+  renames: Record<string, string>; // Nome antigo → nome novo
+  addedColumns: string[];
+  addedColumnTypes: Record<string, ColumnType>;
+}
+
+// Compara nomes sem acentos, maiúsculas, espaços ou pontuação
+const normalizeHeaderName = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const diffHeaders = (existingHeaders: string[], incomingHeaders: string[]) => ({
+  added: incomingHeaders.filter(header => !existingHeaders.includes(header)),
+  removed: existingHeaders.filter(header => !incomingHeaders.includes(header)),
+});
+
+/**
+ * Renomeações prováveis: colunas ausentes cujo nome só difere de uma coluna
+ * nova em acentos, maiúsculas, espaços ou pontuação.
+ */
+export const suggestColumnRenames = (removed: string[], added: string[]): Record<string, string> => {
+  const renames: Record<string, string> = {};
+  removed.forEach(oldHeader => {
+    const match = added.find(newHeader =>
+      normalizeHeaderName(newHeader) === normalizeHeaderName(oldHeader) && !Object.values(renames).includes(newHeader)
+    );
+    if (match) renames[oldHeader] = match;
+  });
+  return renames;
+};
+
+/**
+ * Colunas renomeadas e acrescentadas para a planilha receber os novos dados.
+ * Devolve null quando as colunas não mudaram (a ordem não importa).
+ */
+export const planSchemaEvolution = (
+  existingHeaders: string[],
+  incoming: SheetData,
+  renames: Record<string, string> = {}
+): SchemaEvolution | null => {
+  // Só valem renomeações de uma coluna existente para uma que ainda não existe
+  const validRenames = Object.fromEntries(
+    Object.entries(renames).filter(([oldHeader, newHeader]) =>
+      existingHeaders.includes(oldHeader) && incoming.headers.includes(newHeader) && !existingHeaders.includes(newHeader)
+    )
+  );
+  const evolvedHeaders = existingHeaders.map(header => validRenames[header] ?? header);
+  const addedColumns = incoming.headers.filter(header => !evolvedHeaders.includes(header));
+
+  if (Object.keys(validRenames).length === 0 && addedColumns.length === 0) return null;
+
+  const addedColumnTypes: Record<string, ColumnType> = {};
+  addedColumns.forEach(header => {
+    const type = incoming.columnTypes?.[header];
+    if (type) addedColumnTypes[header] = type;
+  });
+  return { renames: validRenames, addedColumns, addedColumnTypes };
+};
+
+/**
+ * Aplica a mudança de colunas à planilha gravada: renomeia cabeçalhos, tipos,
+ * colunas visíveis e colunas-chave, e acrescenta as colunas novas (visíveis,
+ * vazias nas linhas existentes).
+ */
+export const evolveSheet = (sheet: StoredSheet, evolution: SchemaEvolution): StoredSheet => {
+  const rename = (header: string) => evolution.renames[header] ?? header;
+
+  const rows = sheet.data.rows.map(row => {
+    const evolvedRow: Row = {};
+    Object.entries(row).forEach(([header, value]) => {
+      evolvedRow[rename(header)] = value;
+    });
+    evolution.addedColumns.forEach(header => {
+      if (!(header in evolvedRow)) evolvedRow[header] = null;
+    });
+    return evolvedRow;
+  });
+
+  const columnTypes = sheet.data.columnTypes
+    ? {
+        ...Object.fromEntries(Object.entries(sheet.data.columnTypes).map(([header, type]) => [rename(header), type])),
+        ...evolution.addedColumnTypes,
+      }
+    : undefined;
+
+  const decimalSeparators = sheet.data.decimalSeparators
+    ? Object.fromEntries(Object.entries(sheet.data.decimalSeparators).map(([header, separator]) => [rename(header), separator]))
+    : undefined;
+
+  return {
+    ...sheet,
+    data: {
+      ...sheet.data,
+      headers: [...sheet.data.headers.map(rename), ...evolution.addedColumns],
+      rows,
+      columnTypes,
+      decimalSeparators,
+    },
+    visibleColumns: [...sheet.visibleColumns.map(rename), ...evolution.addedColumns],
+    keyColumns: sheet.keyColumns?.map(rename),
+  };
+};
+
+/**
+ * Resumo em uma linha, para os relatórios.
+ */
+export const describeSchemaEvolution = (evolution: SchemaEvolution): string =>
+  [
+    evolution.addedColumns.length > 0 ? `Colunas novas: ${evolution.addedColumns.join(', ')}` : '',
+    ...Object.entries(evolution.renames).map(([oldHeader, newHeader]) => `"${oldHeader}" renomeada para "${newHeader}"`),
+  ].filter(Boolean).join('; ');
@@ -0,0 +1,24 @@
+import type { SheetMetadata, SheetPeriod } from '../types';
+
+// Tipos oferecidos nas listas; qualquer outro texto é um tipo personalizado
+export const PREDEFINED_SHEET_TYPES = ['Ofertas', 'Alunos'];
+
+export const formatSheetPeriod = (period: SheetPeriod): string => `${period.year}/${period.semester}`;
+
+// Identificador padrão de uma planilha classificada, ex.: "Ofertas_2024_1"
+export const buildSheetKey = (type: string, period: SheetPeriod): string => `${type}_${period.year}_${period.semester}`;
+
+export const buildSheetName = (type: string, period: SheetPeriod): string => `${type} ${formatSheetPeriod(period)}`;
+
+/**
+ * Tipo e período em uma linha, para as listas de planilhas.
+ */
+export const describeSheetClassification = (metadata: SheetMetadata): string =>
+  [metadata.type, metadata.period && formatSheetPeriod(metadata.period)].filter(Boolean).join(' • ');
+
+// Etiquetas digitadas separadas por vírgula, sem repetições
+export const parseTags = (text: string): string[] =>
+  text
+    .split(',')
+    .map(tag => tag.trim())
+    .filter((tag, i, all) => tag && all.indexOf(tag) === i);
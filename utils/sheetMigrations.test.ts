@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, SheetMigrationError, migrateStoredSheet } from './sheetMigrations';
+
+describe('migrateStoredSheet', () => {
+  it('completa nome e datas de registros sem versão', () => {
+    const { sheet, migrated } = migrateStoredSheet({
+      metadata: { key: 'Ofertas_2024_1', type: 'Ofertas', period: { year: 2024, semester: 1 }, updatedAt: '2024-02-01T00:00:00.000Z' },
+      data: { headers: ['Código'], rows: [] },
+      visibleColumns: ['Código', 'Removida'],
+    });
+    expect(migrated).toBe(true);
+    expect(sheet.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(sheet.metadata.name).toBe('Ofertas 2024/1');
+    expect(sheet.metadata.createdAt).toBe('2024-02-01T00:00:00.000Z');
+    expect(sheet.visibleColumns).toEqual(['Código']);
+  });
+
+  it('recusa registros inválidos ou de uma versão mais nova', () => {
+    expect(() => migrateStoredSheet({ data: { headers: [], rows: [] } })).toThrow(SheetMigrationError);
+    expect(() => migrateStoredSheet({ metadata: { key: 'a' } })).toThrow(/sem cabeçalhos/);
+    expect(() => migrateStoredSheet({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(/mais nova/);
+  });
+});
@@ -0,0 +1,110 @@
+import type { StoredSheet } from '../types';
+
+// Versão do formato das planilhas gravadas. Ao mudar o formato, aumente o
+// número e acrescente a migração correspondente ao fim de SHEET_MIGRATIONS.
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export type SheetMigrationErrorCode = 'failed' | 'newer-version';
+
+export class SheetMigrationError extends Error {
+  code: SheetMigrationErrorCode;
+
+  constructor(code: SheetMigrationErrorCode, message: string) {
+    super(message);
+    this.name = 'SheetMigrationError';
+    this.code = code;
+  }
+}
+
+// Registro gravado por uma versão anterior: os campos só são confiáveis
+// depois de conferidos em cada migração
+type LegacyRecord = Record<string, unknown>;
+
+interface SheetMigration {
+  version: number; // Versão em que o registro fica após a migração
+  description: string;
+  migrate: (sheet: LegacyRecord) => LegacyRecord; // Recebe o registro na versão anterior
+}
+
+export const isRecord = (value: unknown): value is LegacyRecord => typeof value === 'object' && value !== null;
+
+const optionalText = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const SHEET_MIGRATIONS: SheetMigration[] = [
+  {
+    // Registros sem versão: as primeiras planilhas eram identificadas por
+    // tipo e período (chave "Ofertas_2024_1") e não tinham nome
+    version: 1,
+    description: 'nome e datas nos metadados',
+    migrate: sheet => {
+      const metadata = sheet.metadata;
+      if (!isRecord(metadata) || typeof metadata.key !== 'string') {
+        throw new Error('registro sem identificador');
+      }
+      const period = isRecord(metadata.period) ? ` ${metadata.period.year}/${metadata.period.semester}` : '';
+      const type = optionalText(metadata.type);
+      const createdAt = optionalText(metadata.createdAt);
+      const updatedAt = optionalText(metadata.updatedAt);
+      const fallbackDate = updatedAt ?? createdAt ?? new Date().toISOString();
+      return {
+        ...sheet,
+        metadata: {
+          ...metadata,
+          name: optionalText(metadata.name) ?? (type ? `${type}${period}` : metadata.key),
+          createdAt: createdAt ?? fallbackDate,
+          updatedAt: updatedAt ?? fallbackDate,
+        },
+      };
+    },
+  },
+  {
+    version: 2,
+    description: 'colunas visíveis restritas às colunas da planilha',
+    migrate: sheet => {
+      const data = sheet.data;
+      if (!isRecord(data) || !Array.isArray(data.headers) || !Array.isArray(data.rows)) {
+        throw new Error('registro sem cabeçalhos ou linhas');
+      }
+      const headers: unknown[] = data.headers;
+      const visibleColumns = Array.isArray(sheet.visibleColumns)
+        ? sheet.visibleColumns.filter(header => headers.includes(header))
+        : headers;
+      return { ...sheet, visibleColumns };
+    },
+  },
+];
+
+/**
+ * Leva um registro lido do armazenamento até a versão atual, aplicando as
+ * migrações em ordem. Falhas e registros de uma versão mais nova do
+ * aplicativo lançam SheetMigrationError.
+ */
+export const migrateStoredSheet = (record: unknown): { sheet: StoredSheet; migrated: boolean } => {
+  if (!isRecord(record)) {
+    throw new SheetMigrationError('failed', 'Registro vazio ou inválido.');
+  }
+
+  const fromVersion = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SheetMigrationError(
+      'newer-version',
+      `Registro na versão ${fromVersion}, mais nova que a deste aplicativo (${CURRENT_SCHEMA_VERSION}).`
+    );
+  }
+
+  let sheet: LegacyRecord = record;
+  for (const migration of SHEET_MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    try {
+      sheet = { ...migration.migrate(sheet), schemaVersion: migration.version };
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      throw new SheetMigrationError('failed', `Falha na migração para a versão ${migration.version} (${migration.description}): ${detail}.`);
+    }
+  }
+
+  // Depois da última migração, o registro está no formato atual
+  return { sheet: sheet as unknown as StoredSheet, migrated: fromVersion < CURRENT_SCHEMA_VERSION };
+};
+
+export const stampSchemaVersion = (sheet: StoredSheet): StoredSheet => ({ ...sheet, schemaVersion: CURRENT_SCHEMA_VERSION });
@@ -0,0 +1,479 @@
+import type { StoredSheet, Row, SnapshotInfo } from '../types';
+import { supportsCompression, gzipText, gunzipText } from './compression';
+import { encodeRows, decodeRows, decodeStoredRows } from './columnarRows';
+import type { ColumnarRows } from './columnarRows';
+import { migrateStoredSheet, stampSchemaVersion, SheetMigrationError } from './sheetMigrations';
+
+// Armazenamento das planilhas. O padrão é o IndexedDB (um registro por
+// planilha, linhas em blocos); o localStorage fica como alternativa para
+// navegadores sem IndexedDB ou com ele bloqueado (ex.: modo privado antigo).
+// No IndexedDB, planilhas arquivadas têm os blocos compactados com gzip.
+// As linhas são gravadas por coluna (ver columnarRows.ts) e convertidas de
+// volta na leitura; registros antigos, com a lista de objetos, continuam válidos.
+// Na leitura, cada planilha passa pelas migrações de sheetMigrations.ts; as
+// que falham vão para a quarentena em vez de serem descartadas.
+
+export type StorageBackendKind = 'indexeddb' | 'localstorage';
+
+// Registro que não pôde ser lido, guardado como estava para recuperação manual
+export interface QuarantinedSheet {
+  key: string;
+  quarantinedAt: string;
+  reason: string;
+  record: unknown;
+}
+
+export interface SheetStorage {
+  kind: StorageBackendKind;
+  loadAll: () => Promise<Record<string, StoredSheet>>;
+  load: (sheetKey: string) => Promise<StoredSheet | null>;
+  save: (sheet: StoredSheet) => Promise<void>;
+  delete: (sheetKey: string) => Promise<void>; // Remove também as cópias da planilha
+  listSnapshots: (sheetKey: string) => Promise<SnapshotInfo[]>; // Mais recentes primeiro
+  loadSnapshot: (snapshotId: string) => Promise<StoredSheet | null>;
+  saveSnapshot: (info: SnapshotInfo, sheet: StoredSheet) => Promise<void>;
+  deleteSnapshot: (snapshotId: string) => Promise<void>;
+  listQuarantined: () => Promise<QuarantinedSheet[]>;
+  deleteQuarantined: (sheetKey: string) => Promise<void>;
+}
+
+// Chave antiga: todas as planilhas serializadas em um único item
+const LEGACY_SHEETS_KEY = 'spreadsheets';
+// Cópias das planilhas quando o IndexedDB não está disponível
+const LOCAL_SNAPSHOTS_KEY = 'sheetSnapshots';
+const LOCAL_QUARANTINE_KEY = 'quarantinedSheets';
+
+const DB_NAME = 'analise-siaa';
+const DB_VERSION = 3;
+const SHEETS_STORE = 'sheets';
+const CHUNKS_STORE = 'rowChunks';
+const SNAPSHOTS_STORE = 'snapshots'; // SnapshotInfo, com índice por planilha
+const SNAPSHOT_DATA_STORE = 'snapshotData';
+const QUARANTINE_STORE = 'quarantine';
+
+// Linhas por bloco gravado no IndexedDB
+const ROWS_PER_CHUNK = 5000;
+
+// Registro da planilha sem as linhas, que ficam em CHUNKS_STORE
+interface SheetRecord {
+  key: string;
+  sheet: StoredSheet; // data.rows vazio
+  chunkCount: number;
+}
+
+interface RowChunkRecord {
+  sheetKey: string;
+  index: number;
+  rows?: Row[]; // Formato antigo
+  columns?: ColumnarRows;
+  gzip?: Blob; // Linhas em JSON compactado (planilhas arquivadas)
+}
+
+interface SnapshotDataRecord {
+  id: string;
+  sheet?: EncodedSheet;
+  gzip?: Blob; // Planilha em JSON compactado, quando o navegador permite
+}
+
+// Planilha gravada inteira (localStorage e cópias): data.rows vazio e as
+// linhas em "columns". Sem "columns", é um registro no formato antigo.
+type EncodedSheet = StoredSheet & { columns?: ColumnarRows };
+
+const encodeSheet = (sheet: StoredSheet): EncodedSheet => ({
+  ...sheet,
+  data: { ...sheet.data, rows: [] },
+  columns: encodeRows(sheet.data.rows),
+});
+
+const decodeSheet = ({ columns, ...sheet }: EncodedSheet): StoredSheet =>
+  columns ? { ...sheet, data: { ...sheet.data, rows: decodeRows(columns) } } : sheet;
+
+// Converte e migra um registro; lança SheetMigrationError se não for possível
+const readStoredSheet = (record: EncodedSheet): { sheet: StoredSheet; migrated: boolean } =>
+  migrateStoredSheet(decodeSheet(record));
+
+const quarantineEntry = (key: string, record: unknown, error: unknown): QuarantinedSheet => ({
+  key,
+  quarantinedAt: new Date().toISOString(),
+  reason: error instanceof Error ? error.message : String(error),
+  record,
+});
+
+// Registros gravados por uma versão mais nova do aplicativo (outra aba já
+// atualizada) ficam onde estão e só deixam de ser carregados aqui
+const isNewerVersion = (error: unknown) =>
+  error instanceof SheetMigrationError && error.code === 'newer-version';
+
+const sortSnapshots = (snapshots: SnapshotInfo[]): SnapshotInfo[] =>
+  snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// --- localStorage ---
+
+// Registros como estão gravados, sem converter as linhas
+const readLocalRecords = (): Record<string, EncodedSheet> => {
+  const stored = localStorage.getItem(LEGACY_SHEETS_KEY);
+  return stored ? JSON.parse(stored) : {};
+};
+
+const readLocalQuarantine = (): QuarantinedSheet[] => {
+  const stored = localStorage.getItem(LOCAL_QUARANTINE_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const writeLocalQuarantine = (entries: QuarantinedSheet[]) => {
+  localStorage.setItem(LOCAL_QUARANTINE_KEY, JSON.stringify(entries));
+};
+
+const addToLocalQuarantine = (entries: QuarantinedSheet[]) => {
+  const keys = new Set(entries.map(entry => entry.key));
+  writeLocalQuarantine([...readLocalQuarantine().filter(entry => !keys.has(entry.key)), ...entries]);
+};
+
+const readLocalSnapshots = (): Array<{ info: SnapshotInfo; sheet: EncodedSheet }> => {
+  const stored = localStorage.getItem(LOCAL_SNAPSHOTS_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const writeLocalSnapshots = (snapshots: Array<{ info: SnapshotInfo; sheet: EncodedSheet }>) => {
+  localStorage.setItem(LOCAL_SNAPSHOTS_KEY, JSON.stringify(snapshots));
+};
+
+export const createLocalStorageBackend = (): SheetStorage => ({
+  kind: 'localstorage',
+  loadAll: async () => {
+    const records = readLocalRecords();
+    const result: Record<string, StoredSheet> = {};
+    const failed: QuarantinedSheet[] = [];
+    let changed = false;
+
+    Object.entries(records).forEach(([key, record]) => {
+      try {
+        const { sheet, migrated } = readStoredSheet(record);
+        result[key] = sheet;
+        if (migrated) {
+          records[key] = encodeSheet(sheet);
+          changed = true;
+        }
+      } catch (error) {
+        if (isNewerVersion(error)) return;
+        console.error(`Error migrating sheet "${key}":`, error);
+        failed.push(quarantineEntry(key, record, error));
+        delete records[key];
+        changed = true;
+      }
+    });
+
+    if (failed.length > 0) addToLocalQuarantine(failed);
+    if (changed) localStorage.setItem(LEGACY_SHEETS_KEY, JSON.stringify(records));
+    return result;
+  },
+  load: async (sheetKey) => {
+    const record = readLocalRecords()[sheetKey];
+    return record ? readStoredSheet(record).sheet : null;
+  },
+  save: async (sheet) => {
+    const records = readLocalRecords();
+    records[sheet.metadata.key] = encodeSheet(stampSchemaVersion(sheet));
+    localStorage.setItem(LEGACY_SHEETS_KEY, JSON.stringify(records));
+  },
+  delete: async (sheetKey) => {
+    const records = readLocalRecords();
+    delete records[sheetKey];
+    localStorage.setItem(LEGACY_SHEETS_KEY, JSON.stringify(records));
+    writeLocalSnapshots(readLocalSnapshots().filter(snapshot => snapshot.info.sheetKey !== sheetKey));
+  },
+  listSnapshots: async (sheetKey) =>
+    sortSnapshots(readLocalSnapshots().filter(snapshot => snapshot.info.sheetKey === sheetKey).map(snapshot => snapshot.info)),
+  loadSnapshot: async (snapshotId) => {
+    const snapshot = readLocalSnapshots().find(({ info }) => info.id === snapshotId);
+    return snapshot ? readStoredSheet(snapshot.sheet).sheet : null;
+  },
+  saveSnapshot: async (info, sheet) => {
+    writeLocalSnapshots([...readLocalSnapshots(), { info, sheet: encodeSheet(stampSchemaVersion(sheet)) }]);
+  },
+  deleteSnapshot: async (snapshotId) => {
+    writeLocalSnapshots(readLocalSnapshots().filter(snapshot => snapshot.info.id !== snapshotId));
+  },
+  listQuarantined: async () => readLocalQuarantine(),
+  deleteQuarantined: async (sheetKey) => {
+    writeLocalQuarantine(readLocalQuarantine().filter(entry => entry.key !== sheetKey));
+  },
+});
+
+// --- IndexedDB ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transação cancelada.'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SHEETS_STORE)) {
+        db.createObjectStore(SHEETS_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+        db.createObjectStore(CHUNKS_STORE, { keyPath: ['sheetKey', 'index'] });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' }).createIndex('sheetKey', 'sheetKey');
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOT_DATA_STORE)) {
+        db.createObjectStore(SNAPSHOT_DATA_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+        db.createObjectStore(QUARANTINE_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Banco de dados bloqueado por outra aba.'));
+  });
+
+// Todos os blocos de uma planilha: [chave, 0] até [chave, ∞]
+const chunkRange = (sheetKey: string): IDBKeyRange =>
+  IDBKeyRange.bound([sheetKey, 0], [sheetKey, Number.MAX_SAFE_INTEGER]);
+
+const splitIntoChunks = (sheet: StoredSheet): RowChunkRecord[] => {
+  const { rows } = sheet.data;
+  const chunks: RowChunkRecord[] = [];
+  for (let index = 0; index * ROWS_PER_CHUNK < rows.length; index++) {
+    chunks.push({
+      sheetKey: sheet.metadata.key,
+      index,
+      columns: encodeRows(rows.slice(index * ROWS_PER_CHUNK, (index + 1) * ROWS_PER_CHUNK)),
+    });
+  }
+  return chunks;
+};
+
+// Os blocos são preparados antes da transação, que não pode esperar a compressão
+const prepareChunks = async (sheet: StoredSheet): Promise<RowChunkRecord[]> => {
+  const chunks = splitIntoChunks(sheet);
+  if (!sheet.metadata.archived || !supportsCompression()) return chunks;
+  return Promise.all(chunks.map(async ({ sheetKey, index, columns }) => ({
+    sheetKey,
+    index,
+    gzip: await gzipText(JSON.stringify(columns)),
+  })));
+};
+
+// O gzip pode conter linhas no formato antigo ou por coluna
+const readChunkRows = async (chunk: RowChunkRecord): Promise<Row[]> => {
+  if (chunk.gzip) return decodeStoredRows(JSON.parse(await gunzipText(chunk.gzip)));
+  return decodeStoredRows(chunk.columns ?? chunk.rows);
+};
+
+const assembleSheet = async (record: SheetRecord, sheetChunks: RowChunkRecord[]): Promise<StoredSheet> => {
+  const ordered = [...sheetChunks].sort((a, b) => a.index - b.index);
+  const rows = (await Promise.all(ordered.map(readChunkRows))).flat();
+  return { ...record.sheet, data: { ...record.sheet.data, rows } };
+};
+
+const putSheet = (sheets: IDBObjectStore, chunks: IDBObjectStore, sheet: StoredSheet, sheetChunks: RowChunkRecord[]) => {
+  const key = sheet.metadata.key;
+  chunks.delete(chunkRange(key));
+  sheetChunks.forEach(chunk => chunks.put(chunk));
+
+  const record: SheetRecord = { key, sheet: { ...sheet, data: { ...sheet.data, rows: [] } }, chunkCount: sheetChunks.length };
+  sheets.put(record);
+};
+
+export const createIndexedDbBackend = (db: IDBDatabase): SheetStorage => {
+  // Gravações na ordem em que foram pedidas, mesmo quando uma delas compacta
+  let pending: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = pending.then(task, task);
+    pending = result.catch(() => undefined);
+    return result;
+  };
+
+  const save = (sheet: StoredSheet) => enqueue(async () => {
+    const stamped = stampSchemaVersion(sheet);
+    const sheetChunks = await prepareChunks(stamped);
+    const transaction = db.transaction([SHEETS_STORE, CHUNKS_STORE], 'readwrite');
+    putSheet(transaction.objectStore(SHEETS_STORE), transaction.objectStore(CHUNKS_STORE), stamped, sheetChunks);
+    await transactionDone(transaction);
+  });
+
+  // Tira as planilhas do armazenamento principal e as guarda na quarentena
+  const quarantine = (entries: QuarantinedSheet[]) => enqueue(async () => {
+    const transaction = db.transaction([SHEETS_STORE, CHUNKS_STORE, QUARANTINE_STORE], 'readwrite');
+    entries.forEach(entry => {
+      transaction.objectStore(QUARANTINE_STORE).put(entry);
+      transaction.objectStore(SHEETS_STORE).delete(entry.key);
+      transaction.objectStore(CHUNKS_STORE).delete(chunkRange(entry.key));
+    });
+    await transactionDone(transaction);
+  });
+
+  return {
+    kind: 'indexeddb',
+    loadAll: async () => {
+      const transaction = db.transaction([SHEETS_STORE, CHUNKS_STORE], 'readonly');
+      const records = await requestToPromise(transaction.objectStore(SHEETS_STORE).getAll() as IDBRequest<SheetRecord[]>);
+      const chunks = transaction.objectStore(CHUNKS_STORE);
+
+      const chunksBySheet = await Promise.all(records.map(record =>
+        requestToPromise(chunks.getAll(chunkRange(record.key)) as IDBRequest<RowChunkRecord[]>)
+      ));
+
+      const result: Record<string, StoredSheet> = {};
+      const upgraded: StoredSheet[] = [];
+      const failed: QuarantinedSheet[] = [];
+      await Promise.all(records.map(async (record, i) => {
+        let raw: unknown = record;
+        try {
+          raw = await assembleSheet(record, chunksBySheet[i]);
+          const { sheet, migrated } = migrateStoredSheet(raw);
+          result[record.key] = sheet;
+          if (migrated) upgraded.push(sheet);
+        } catch (error) {
+          if (isNewerVersion(error)) return;
+          console.error(`Error migrating sheet "${record.key}":`, error);
+          failed.push(quarantineEntry(record.key, raw, error));
+        }
+      }));
+
+      // Gravar já no formato atual para não migrar de novo a cada abertura
+      await Promise.all(upgraded.map(save));
+      if (failed.length > 0) await quarantine(failed);
+      return result;
+    },
+    load: async (sheetKey) => {
+      const transaction = db.transaction([SHEETS_STORE, CHUNKS_STORE], 'readonly');
+      const [record, sheetChunks] = await Promise.all([
+        requestToPromise(transaction.objectStore(SHEETS_STORE).get(sheetKey) as IDBRequest<SheetRecord | undefined>),
+        requestToPromise(transaction.objectStore(CHUNKS_STORE).getAll(chunkRange(sheetKey)) as IDBRequest<RowChunkRecord[]>),
+      ]);
+      return record ? migrateStoredSheet(await assembleSheet(record, sheetChunks)).sheet : null;
+    },
+    save,
+    delete: (sheetKey) => enqueue(async () => {
+      const transaction = db.transaction([SHEETS_STORE, CHUNKS_STORE, SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite');
+      transaction.objectStore(SHEETS_STORE).delete(sheetKey);
+      transaction.objectStore(CHUNKS_STORE).delete(chunkRange(sheetKey));
+      const snapshotIds = await requestToPromise(
+        transaction.objectStore(SNAPSHOTS_STORE).index('sheetKey').getAllKeys(sheetKey)
+      );
+      snapshotIds.forEach(id => {
+        transaction.objectStore(SNAPSHOTS_STORE).delete(id);
+        transaction.objectStore(SNAPSHOT_DATA_STORE).delete(id);
+      });
+      await transactionDone(transaction);
+    }),
+    listSnapshots: async (sheetKey) => {
+      const transaction = db.transaction(SNAPSHOTS_STORE, 'readonly');
+      const snapshots = await requestToPromise(
+        transaction.objectStore(SNAPSHOTS_STORE).index('sheetKey').getAll(sheetKey) as IDBRequest<SnapshotInfo[]>
+      );
+      return sortSnapshots(snapshots);
+    },
+    loadSnapshot: async (snapshotId) => {
+      const transaction = db.transaction(SNAPSHOT_DATA_STORE, 'readonly');
+      const record = await requestToPromise(
+        transaction.objectStore(SNAPSHOT_DATA_STORE).get(snapshotId) as IDBRequest<SnapshotDataRecord | undefined>
+      );
+      if (!record) return null;
+      if (record.gzip) return readStoredSheet(JSON.parse(await gunzipText(record.gzip))).sheet;
+      return record.sheet ? readStoredSheet(record.sheet).sheet : null;
+    },
+    saveSnapshot: (info, sheet) => enqueue(async () => {
+      const encoded = encodeSheet(stampSchemaVersion(sheet));
+      const data: SnapshotDataRecord = supportsCompression()
+        ? { id: info.id, gzip: await gzipText(JSON.stringify(encoded)) }
+        : { id: info.id, sheet: encoded };
+      const transaction = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite');
+      transaction.objectStore(SNAPSHOTS_STORE).put(info);
+      transaction.objectStore(SNAPSHOT_DATA_STORE).put(data);
+      await transactionDone(transaction);
+    }),
+    deleteSnapshot: (snapshotId) => enqueue(async () => {
+      const transaction = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite');
+      transaction.objectStore(SNAPSHOTS_STORE).delete(snapshotId);
+      transaction.objectStore(SNAPSHOT_DATA_STORE).delete(snapshotId);
+      await transactionDone(transaction);
+    }),
+    listQuarantined: async () => {
+      const transaction = db.transaction(QUARANTINE_STORE, 'readonly');
+      return requestToPromise(transaction.objectStore(QUARANTINE_STORE).getAll() as IDBRequest<QuarantinedSheet[]>);
+    },
+    deleteQuarantined: (sheetKey) => enqueue(async () => {
+      const transaction = db.transaction(QUARANTINE_STORE, 'readwrite');
+      transaction.objectStore(QUARANTINE_STORE).delete(sheetKey);
+      await transactionDone(transaction);
+    }),
+  };
+};
+
+/**
+ * Copia as planilhas da chave antiga do localStorage para o IndexedDB, em
+ * uma única transação, e só então remove a chave antiga.
+ */
+const migrateLegacySheets = async (db: IDBDatabase) => {
+  let records: Record<string, EncodedSheet>;
+  try {
+    records = readLocalRecords();
+  } catch (error) {
+    console.error('Error reading legacy sheets:', error);
+    return;
+  }
+
+  const entries = Object.entries(records);
+  if (entries.length > 0) {
+    const transaction = db.transaction([SHEETS_STORE, CHUNKS_STORE, QUARANTINE_STORE], 'readwrite');
+    const sheetStore = transaction.objectStore(SHEETS_STORE);
+    const chunkStore = transaction.objectStore(CHUNKS_STORE);
+    // Não sobrescrever planilhas já gravadas no IndexedDB por outra aba
+    const existingKeys = new Set(await requestToPromise(sheetStore.getAllKeys()));
+    entries
+      .filter(([key]) => !existingKeys.has(key))
+      .forEach(([key, record]) => {
+        // As migrações rodam depois, no loadAll; aqui só se copia o registro
+        try {
+          const sheet = decodeSheet(record);
+          putSheet(sheetStore, chunkStore, { ...sheet, metadata: { ...sheet.metadata, key } }, splitIntoChunks(sheet));
+        } catch (error) {
+          console.error(`Error copying legacy sheet "${key}":`, error);
+          const detail = error instanceof Error ? error.message : String(error);
+          const reason = new Error(`Não foi possível copiar o registro do localStorage: ${detail}`);
+          transaction.objectStore(QUARANTINE_STORE).put(quarantineEntry(key, record, reason));
+        }
+      });
+    await transactionDone(transaction);
+  }
+
+  localStorage.removeItem(LEGACY_SHEETS_KEY);
+};
+
+/**
+ * Abre o armazenamento: IndexedDB quando disponível (migrando os dados
+ * antigos do localStorage na primeira execução) ou localStorage.
+ */
+export const openSheetStorage = async (): Promise<SheetStorage> => {
+  if (typeof indexedDB === 'undefined') {
+    return createLocalStorageBackend();
+  }
+
+  try {
+    const db = await openDatabase();
+    if (localStorage.getItem(LEGACY_SHEETS_KEY) !== null) {
+      await migrateLegacySheets(db);
+    }
+    return createIndexedDbBackend(db);
+  } catch (error) {
+    console.error('IndexedDB indisponível, usando localStorage:', error);
+    return createLocalStorageBackend();
+  }
+};
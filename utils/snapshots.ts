@@ -0,0 +1,52 @@
+import type { SnapshotInfo, SnapshotReason, StoredSheet } from '../types';
+import type { SheetStorage } from './sheetStorage';
+
+const STORAGE_RETENTION_KEY = 'snapshotRetention';
+export const DEFAULT_SNAPSHOT_RETENTION = 10;
+
+// Quantidade de cópias mantidas por planilha
+export const loadSnapshotRetention = (): number => {
+  const stored = Number(localStorage.getItem(STORAGE_RETENTION_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_SNAPSHOT_RETENTION;
+};
+
+export const saveSnapshotRetention = (limit: number) => {
+  localStorage.setItem(STORAGE_RETENTION_KEY, String(limit));
+};
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  merge: 'Antes de mesclagem',
+  manual: 'Manual',
+  restore: 'Antes de restauração',
+  dedup: 'Antes de remover duplicados',
+};
+
+/**
+ * Guarda uma cópia da planilha e descarta as mais antigas além do limite.
+ */
+export const createSnapshot = async (
+  storage: SheetStorage,
+  sheet: StoredSheet,
+  reason: SnapshotReason,
+  sourceFiles: string[] = []
+): Promise<SnapshotInfo> => {
+  const info: SnapshotInfo = {
+    id: `${sheet.metadata.key}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    sheetKey: sheet.metadata.key,
+    createdAt: new Date().toISOString(),
+    reason,
+    sourceFiles,
+    rowCount: sheet.data.rows.length,
+    columnCount: sheet.data.headers.length,
+  };
+  await storage.saveSnapshot(info, sheet);
+  await pruneSnapshots(storage, sheet.metadata.key);
+  return info;
+};
+
+export const pruneSnapshots = async (storage: SheetStorage, sheetKey: string, limit = loadSnapshotRetention()) => {
+  const snapshots = await storage.listSnapshots(sheetKey);
+  for (const snapshot of snapshots.slice(limit)) {
+    await storage.deleteSnapshot(snapshot.id);
+  }
+};
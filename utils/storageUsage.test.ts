@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { Row } from '../types';
+import { compactSheet } from './storageUsage';
+import { buildStoredSheet } from './testFixtures';
+
+const buildSheet = (rows: Row[]) =>
+  buildStoredSheet(
+    { headers: ['Código', 'Turma', 'Obs'], rows, columnTypes: { 'Código': 'identifier', Turma: 'text', Obs: 'text' } },
+    { keyColumns: ['Código'] }
+  );
+
+describe('compactSheet', () => {
+  it('remove espaços, colunas vazias e linhas vazias', () => {
+    const { sheet, removedColumns, removedRows } = compactSheet(buildSheet([
+      { 'Código': ' 10 ', Turma: 'A', Obs: '' },
+      { 'Código': null, Turma: '  ', Obs: null },
+    ]));
+    expect(removedColumns).toEqual(['Obs']);
+    expect(removedRows).toBe(1);
+    expect(sheet.data.rows).toEqual([{ 'Código': '10', Turma: 'A' }]);
+    expect(sheet.visibleColumns).toEqual(['Código', 'Turma']);
+  });
+
+  it('mantém o momento de importação só das linhas que ficam', () => {
+    const original = buildSheet([{ 'Código': '10', Turma: 'A' }, { 'Código': null, Turma: null }, { 'Código': '11', Turma: 'B' }]);
+    const { sheet } = compactSheet({ ...original, data: { ...original.data, rowImportedAt: [1, 2, 3] } });
+    expect(sheet.data.rowImportedAt).toEqual([1, 3]);
+  });
+
+  it('mantém as colunas de uma planilha sem linhas', () => {
+    const original = buildSheet([]);
+    const { sheet, removedColumns } = compactSheet(original);
+    expect(removedColumns).toEqual([]);
+    expect(sheet).toBe(original);
+  });
+
+  it('mantém as colunas quando todas as linhas estão vazias', () => {
+    const { sheet, removedColumns, removedRows } = compactSheet(buildSheet([{ 'Código': '', Turma: null, Obs: ' ' }]));
+    expect(removedColumns).toEqual([]);
+    expect(removedRows).toBe(1);
+    expect(sheet.data.headers).toEqual(['Código', 'Turma', 'Obs']);
+    expect(sheet.keyColumns).toEqual(['Código']);
+  });
+});
@@ -0,0 +1,120 @@
+import type { StoredSheet, Row } from '../types';
+import type { StorageBackendKind } from './sheetStorage';
+
+export interface StorageEstimate {
+  usage: number; // Bytes em uso
+  quota: number; // Bytes disponíveis para o site
+}
+
+// Limite usual do localStorage por site
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Tamanho aproximado de um valor serializado, em bytes.
+ */
+export const estimateJsonSize = (value: unknown): number => new Blob([JSON.stringify(value)]).size;
+
+export const estimateSheetSize = (sheet: StoredSheet): number => estimateJsonSize(sheet);
+
+/**
+ * Uso e cota do armazenamento em uso. No IndexedDB vem de
+ * navigator.storage.estimate(); no localStorage é calculado pelos itens.
+ */
+export const getStorageEstimate = async (kind: StorageBackendKind): Promise<StorageEstimate | null> => {
+  if (kind === 'localstorage') {
+    let usage = 0;
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i) ?? '';
+      usage += key.length + (localStorage.getItem(key)?.length ?? 0);
+    }
+    return { usage, quota: LOCAL_STORAGE_QUOTA };
+  }
+
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Verifica se dados novos, com o tamanho estimado em bytes, cabem no espaço
+ * livre. Sem estimativa do navegador, assume que cabem.
+ */
+export const checkDataFits = async (
+  kind: StorageBackendKind,
+  required: number
+): Promise<{ fits: boolean; required: number; available: number }> => {
+  const estimate = await getStorageEstimate(kind);
+  if (!estimate) return { fits: true, required, available: Infinity };
+  const available = Math.max(0, estimate.quota - estimate.usage);
+  return { fits: required <= available, required, available };
+};
+
+export interface CompactionResult {
+  sheet: StoredSheet;
+  removedColumns: string[];
+  removedRows: number;
+}
+
+/**
+ * Reduz o espaço ocupado por uma planilha sem perder informação: remove
+ * espaços nas pontas dos textos, troca textos vazios por null e descarta
+ * colunas e linhas totalmente vazias.
+ */
+export const compactSheet = (sheet: StoredSheet): CompactionResult => {
+  const { headers, rows } = sheet.data;
+  // Sem linhas, toda coluna pareceria vazia e a planilha perderia a estrutura
+  if (rows.length === 0) return { sheet, removedColumns: [], removedRows: 0 };
+
+  const normalizedRows: Row[] = rows.map(row => {
+    const normalized: Row = {};
+    headers.forEach(header => {
+      const value = row[header];
+      normalized[header] = typeof value === 'string' ? (value.trim() || null) : value ?? null;
+    });
+    return normalized;
+  });
+
+  // Com todas as linhas vazias, saem as linhas, mas as colunas ficam
+  const hasValues = normalizedRows.some(row => headers.some(header => row[header] !== null));
+  const removedColumns = hasValues ? headers.filter(header => normalizedRows.every(row => row[header] === null)) : [];
+  const keptHeaders = headers.filter(header => !removedColumns.includes(header));
+
+  const isKept = normalizedRows.map(row => keptHeaders.some(header => row[header] !== null));
+  const keptRows = normalizedRows
+    .filter((_, index) => isKept[index])
+    .map(row => {
+      removedColumns.forEach(header => delete row[header]);
+      return row;
+    });
+
+  const columnTypes = sheet.data.columnTypes ? { ...sheet.data.columnTypes } : undefined;
+  removedColumns.forEach(header => {
+    if (columnTypes) delete columnTypes[header];
+  });
+
+  return {
+    sheet: {
+      ...sheet,
+      data: {
+        ...sheet.data,
+        headers: keptHeaders,
+        rows: keptRows,
+        columnTypes,
+        rowImportedAt: sheet.data.rowImportedAt?.filter((_, index) => isKept[index]),
+      },
+      visibleColumns: sheet.visibleColumns.filter(header => keptHeaders.includes(header)),
+    },
+    removedColumns,
+    removedRows: rows.length - keptRows.length,
+  };
+};
@@ -0,0 +1,58 @@
+// Aviso entre abas do navegador sobre planilhas gravadas ou excluídas.
+// Usa BroadcastChannel e, sem ele, eventos "storage" do localStorage.
+
+export type SheetChangeKind = 'saved' | 'deleted';
+
+export interface SheetChangeMessage {
+  kind: SheetChangeKind;
+  sheetKey: string;
+  tabId: string;
+}
+
+const CHANNEL_NAME = 'analise-siaa-sync';
+// Item usado só para disparar o evento "storage" nas outras abas
+const STORAGE_SYNC_KEY = 'sheetSync';
+
+// Identifica esta aba para ignorar as próprias mensagens
+const TAB_ID = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+export const notifySheetChange = (kind: SheetChangeKind, sheetKey: string) => {
+  const message: SheetChangeMessage = { kind, sheetKey, tabId: TAB_ID };
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+  try {
+    // O horário garante um valor novo mesmo ao repetir a mesma mensagem
+    localStorage.setItem(STORAGE_SYNC_KEY, JSON.stringify({ ...message, sentAt: Date.now() }));
+  } catch (error) {
+    console.error('Error notifying other tabs:', error);
+  }
+};
+
+/**
+ * Escuta as alterações feitas em outras abas. Devolve a função que encerra a escuta.
+ */
+export const subscribeToSheetChanges = (listener: (message: SheetChangeMessage) => void): (() => void) => {
+  if (channel) {
+    const handleMessage = (event: MessageEvent<SheetChangeMessage>) => {
+      if (event.data?.tabId !== TAB_ID) listener(event.data);
+    };
+    channel.addEventListener('message', handleMessage);
+    return () => channel.removeEventListener('message', handleMessage);
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_SYNC_KEY || !event.newValue) return;
+    try {
+      const message: SheetChangeMessage = JSON.parse(event.newValue);
+      if (message.tabId !== TAB_ID) listener(message);
+    } catch (error) {
+      console.error('Error reading tab sync message:', error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
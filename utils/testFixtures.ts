@@ -0,0 +1,12 @@
+import type { SheetData, StoredSheet } from '../types';
+
+/**
+ * Planilha gravada para os testes: todas as colunas visíveis e metadados
+ * fixos. Os demais campos vêm de `overrides`.
+ */
+export const buildStoredSheet = (data: SheetData, overrides: Partial<StoredSheet> = {}): StoredSheet => ({
+  metadata: { key: 'alunos', name: 'Alunos', createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z' },
+  data,
+  visibleColumns: data.headers,
+  ...overrides,
+});
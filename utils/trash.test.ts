@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { SheetMetadata } from '../types';
+import { findExpiredTrash, getTrashPurgeDate, isInTrash } from './trash';
+
+const metadata = (key: string, deletedAt?: string): SheetMetadata => ({
+  key,
+  name: key,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  deletedAt,
+});
+
+describe('lixeira', () => {
+  it('reconhece as planilhas excluídas', () => {
+    expect(isInTrash(metadata('a', '2024-05-01T00:00:00.000Z'))).toBe(true);
+    expect(isInTrash(metadata('b'))).toBe(false);
+  });
+
+  it('calcula a data de exclusão definitiva pelo prazo', () => {
+    expect(getTrashPurgeDate(metadata('a', '2024-05-01T00:00:00.000Z'), 30).toISOString()).toBe('2024-05-31T00:00:00.000Z');
+  });
+
+  it('só lista as planilhas na lixeira há mais tempo que o prazo', () => {
+    const sheets = [
+      metadata('vencida', '2024-04-01T00:00:00.000Z'),
+      metadata('no-prazo', '2024-05-25T00:00:00.000Z'),
+      metadata('no-limite', '2024-05-02T00:00:00.000Z'),
+      metadata('ativa'),
+    ];
+    expect(findExpiredTrash(sheets, 30, new Date('2024-06-01T00:00:00.000Z'))).toEqual(['vencida', 'no-limite']);
+  });
+});
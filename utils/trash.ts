@@ -0,0 +1,30 @@
+import type { SheetMetadata } from '../types';
+
+const STORAGE_TRASH_DAYS_KEY = 'trashRetentionDays';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dias que uma planilha fica na lixeira antes da exclusão definitiva
+export const loadTrashRetentionDays = (): number => {
+  const stored = Number(localStorage.getItem(STORAGE_TRASH_DAYS_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const saveTrashRetentionDays = (days: number) => {
+  localStorage.setItem(STORAGE_TRASH_DAYS_KEY, String(days));
+};
+
+export const isInTrash = (metadata: SheetMetadata): boolean => !!metadata.deletedAt;
+
+// Data em que a planilha sai da lixeira definitivamente
+export const getTrashPurgeDate = (metadata: SheetMetadata, retentionDays: number): Date =>
+  new Date(new Date(metadata.deletedAt ?? 0).getTime() + retentionDays * DAY_MS);
+
+/**
+ * Planilhas na lixeira há mais tempo que o prazo configurado.
+ */
+export const findExpiredTrash = (sheets: SheetMetadata[], retentionDays: number, now = new Date()): string[] =>
+  sheets
+    .filter(metadata => isInTrash(metadata) && getTrashPurgeDate(metadata, retentionDays) <= now)
+    .map(metadata => metadata.key);
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeGrid,
+  buildSheetData,
+  buildWorksheetData,
+  combineWorksheets,
+  detectHeaderCandidates,
+  getWorksheetGrid,
+  resolveHeaders,
+  summarizeWorksheetImport,
+} from './workbookParser';
+import type { RawGrid } from './workbookParser';
+
+describe('resolveHeaders', () => {
+  it('mantém colunas com dados após uma lacuna no cabeçalho', () => {
+    const grid: RawGrid = [['RA', null, 'Nome'], ['1', 'x', 'Ana']];
+    const resolved = resolveHeaders(grid, { headerRowIndex: 0 });
+    expect(resolved.headers).toEqual(['RA', 'Coluna 2', 'Nome']);
+    expect(resolved.synthesized).toEqual({ 'Coluna 2': 'blank' });
+  });
+
+  it('descarta colunas sem nome e sem dados', () => {
+    const grid: RawGrid = [['RA', null, 'Nome'], ['1', null, 'Ana']];
+    expect(resolveHeaders(grid, { headerRowIndex: 0 }).columnIndexes).toEqual([0, 2]);
+  });
+
+  it('numera nomes repetidos', () => {
+    const grid: RawGrid = [['Nota', 'Nota', 'Nota'], [1, 2, 3]];
+    const resolved = resolveHeaders(grid, { headerRowIndex: 0 });
+    expect(resolved.headers).toEqual(['Nota', 'Nota (2)', 'Nota (3)']);
+    expect(resolved.synthesized).toEqual({ 'Nota (2)': 'duplicate', 'Nota (3)': 'duplicate' });
+  });
+
+  it('combina duas linhas, estendendo a de cima sobre as células mescladas', () => {
+    const grid: RawGrid = [
+      ['Turma', 'Vagas', null, 'Obs'],
+      [null, 'Total', 'Ocupadas', null],
+      ['A', 40, 35, ''],
+    ];
+    const resolved = resolveHeaders(grid, { headerRowIndex: 0, headerRowCount: 2 });
+    expect(resolved.headers).toEqual(['Turma', 'Vagas / Total', 'Vagas / Ocupadas', 'Obs']);
+    expect(resolved.dataStartIndex).toBe(2);
+  });
+
+  it('pula as linhas indicadas após o cabeçalho', () => {
+    const grid: RawGrid = [['RA', 'Nome'], ['(número)', '(texto)'], ['1', 'Ana']];
+    expect(buildSheetData(grid, { headerRowIndex: 0, skipRows: 1 }).rows).toEqual([{ RA: '1', Nome: 'Ana' }]);
+  });
+
+  it('recusa linha de cabeçalho inexistente', () => {
+    expect(() => resolveHeaders([['RA']], { headerRowIndex: 3 })).toThrow();
+  });
+});
+
+describe('detectHeaderCandidates', () => {
+  it('prefere a linha de textos seguida de dados à linha de título', () => {
+    const grid: RawGrid = [['Relatório de ofertas', null, null], ['Código', 'Turma', 'Vagas'], [101, 'A', 40]];
+    expect(detectHeaderCandidates(grid)[0].rowIndex).toBe(1);
+  });
+});
+
+describe('analyzeGrid', () => {
+  const grid: RawGrid = [
+    ['Relatório de ofertas', null, null],
+    ['Código', 'Turma', 'Vagas'],
+    [101, 'A', 40],
+    [null, null, null],
+    [102, 'B', null, 'nota solta'],
+  ];
+
+  it('monta as linhas com o melhor cabeçalho', () => {
+    const sheet = analyzeGrid('Ofertas', grid);
+    expect(sheet?.defaultData).toEqual({
+      headers: ['Código', 'Turma', 'Vagas', 'Coluna 4'],
+      rows: [
+        { 'Código': 101, Turma: 'A', Vagas: 40, 'Coluna 4': null },
+        { 'Código': 102, Turma: 'B', Vagas: null, 'Coluna 4': 'nota solta' },
+      ],
+    });
+    expect(sheet?.emptyRowIndexes).toEqual([3]);
+    expect(sheet?.estimatedBytes).toBeGreaterThan(0);
+  });
+
+  it('remonta a grade para ler a aba com outro cabeçalho', () => {
+    const sheet = analyzeGrid('Ofertas', grid)!;
+    const rebuilt = { ...sheet, headRows: sheet.headRows.slice(0, 3) };
+    const options = { headerRowIndex: 1, skipRows: 1 };
+    expect(buildWorksheetData(rebuilt, options)).toEqual(buildSheetData(grid, options));
+    expect(getWorksheetGrid(rebuilt)).toHaveLength(grid.length);
+  });
+
+  it('conta as linhas vazias descartadas no resumo da importação', () => {
+    const sheet = analyzeGrid('Ofertas', grid)!;
+    expect(summarizeWorksheetImport('ofertas.xlsx', sheet, { headerRowIndex: 1 }, 2).emptyRowsSkipped).toBe(1);
+  });
+});
+
+describe('combineWorksheets', () => {
+  it('junta abas com o mesmo cabeçalho e indica a aba de origem', () => {
+    const first = analyzeGrid('2024/1', [['RA', 'Nome'], ['1', 'Ana']])!;
+    const second = analyzeGrid('2024/2', [['RA', 'Nome'], ['2', 'Bia']])!;
+    expect(combineWorksheets('Alunos', [first, second], 'Aba').defaultData.rows).toEqual([
+      { RA: '1', Nome: 'Ana', Aba: '2024/1' },
+      { RA: '2', Nome: 'Bia', Aba: '2024/2' },
+    ]);
+  });
+});
@@ -0,0 +1,513 @@
+import * as XLSX from 'xlsx';
+import type { SheetData, Row, ImportFileResult } from '../types';
+import { detectTextImportOptions, parseDelimitedText } from './delimitedText';
+import { datePartsToIso } from './dates';
+import type { TextImportOptions } from './delimitedText';
+import { estimateJsonSize } from './storageUsage';
+
+export type CellValue = string | number | boolean | null;
+export type RawGrid = CellValue[][];
+
+export interface HeaderCandidate {
+  rowIndex: number; // Índice (0-based) da linha na planilha bruta
+  score: number;
+  reason: string; // Explicação curta exibida na pré-visualização
+}
+
+export interface ParsedWorksheet {
+  name: string;
+  headRows: RawGrid; // Primeiras linhas da grade bruta (títulos e cabeçalho)
+  headerCandidates: HeaderCandidate[];
+  rowCount: number; // Linhas com pelo menos uma célula preenchida
+  columnCount: number;
+  gridRowCount: number; // Linhas da grade bruta, inclusive as vazias
+  // Linhas montadas com o melhor candidato a cabeçalho. Na importação isso é
+  // feito no worker, e a grade bruta completa não volta para a interface
+  defaultData: SheetData;
+  defaultHeaders: ResolvedHeaders;
+  emptyRowIndexes: number[]; // Linhas vazias após o cabeçalho padrão, fora de defaultData
+  estimatedBytes: number; // Tamanho aproximado de defaultData ao ser gravado
+  // Presente apenas para CSV/TSV: conteúdo original e opções usadas na leitura
+  textImport?: {
+    bytes: Uint8Array;
+    options: TextImportOptions;
+  };
+}
+
+export interface ParsedWorkbook {
+  fileName: string;
+  sheets: ParsedWorksheet[]; // Apenas abas com dados, na ordem do arquivo
+}
+
+// Uma aba identificada pelo arquivo de origem
+export interface WorksheetSource {
+  fileName: string;
+  sheet: ParsedWorksheet;
+}
+
+export interface SheetBuildOptions {
+  headerRowIndex: number;
+  headerRowCount?: 1 | 2; // 2 combina duas linhas empilhadas ("Vagas / Total")
+  skipRows?: number; // Linhas a ignorar logo após o cabeçalho (subtítulos, unidades etc.)
+}
+
+// Por que um nome de coluna não veio direto do arquivo
+export type SynthesizedHeaderReason = 'blank' | 'duplicate' | 'combined';
+
+export interface ResolvedHeaders {
+  headers: string[];
+  columnIndexes: number[]; // Coluna da grade correspondente a cada cabeçalho
+  synthesized: Record<string, SynthesizedHeaderReason>;
+  dataStartIndex: number; // Primeira linha de dados na grade
+}
+
+// Formatos aceitos na importação
+export const SUPPORTED_FILE_PATTERN = /\.(xls|xlsx|xlsm|ods|csv|tsv)$/i;
+export const SUPPORTED_FILE_ACCEPT = '.xls,.xlsx,.xlsm,.ods,.csv,.tsv';
+export const SUPPORTED_FILE_LABEL = '.xls, .xlsx, .xlsm, .ods, .csv ou .tsv';
+
+const TEXT_FILE_PATTERN = /\.(csv|tsv)$/i;
+
+// Quantas linhas do topo são avaliadas como possível cabeçalho
+const HEADER_SCAN_LIMIT = 15;
+// Linhas do topo guardadas como estão, para exibição e escolha do cabeçalho
+const HEAD_ROW_LIMIT = 30;
+const MAX_HEADER_CANDIDATES = 5;
+
+const isEmptyCell = (cell: CellValue | undefined): boolean =>
+  cell === null || cell === undefined || String(cell).trim() === '';
+
+const countFilledCells = (row: CellValue[] | undefined): number =>
+  row ? row.filter(cell => !isEmptyCell(cell)).length : 0;
+
+export type ParseErrorCode =
+  | 'read-failed'
+  | 'invalid-format'
+  | 'empty'
+  | 'no-header'
+  | 'no-columns'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * Erro de importação com código, para que a interface possa exibir
+ * mensagens estruturadas em vez de alertas.
+ */
+export class ParseError extends Error {
+  code: ParseErrorCode;
+
+  constructor(code: ParseErrorCode, message: string) {
+    super(message);
+    this.name = 'ParseError';
+    this.code = code;
+  }
+}
+
+/**
+ * Troca as células numéricas com formato de data pelo texto ISO da data,
+ * para que não cheguem à grade como números de série.
+ */
+const convertDateCells = (worksheet: XLSX.WorkSheet) => {
+  Object.keys(worksheet).forEach(address => {
+    if (address.startsWith('!')) return;
+    const cell = worksheet[address] as XLSX.CellObject;
+    if (cell.t !== 'n' || typeof cell.v !== 'number' || !cell.z || !XLSX.SSF.is_date(cell.z)) return;
+
+    const parts = XLSX.SSF.parse_date_code(cell.v);
+    const iso = parts ? datePartsToIso(parts) : null;
+    if (iso) {
+      worksheet[address] = { t: 's', v: iso };
+    }
+  });
+};
+
+/**
+ * Converte uma planilha do SheetJS em uma grade bruta (linhas x colunas),
+ * sem nenhuma interpretação de cabeçalho. Datas viram texto ISO.
+ */
+export const worksheetToGrid = (worksheet: XLSX.WorkSheet): RawGrid => {
+  convertDateCells(worksheet);
+  const grid: RawGrid = XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    defval: null,
+    blankrows: true,
+  });
+  return grid.map(row => (Array.isArray(row) ? row : []));
+};
+
+/**
+ * Classifica as primeiras linhas da grade como possíveis cabeçalhos.
+ * Linhas de título (uma única célula preenchida) e linhas numéricas recebem
+ * pontuação baixa; linhas com vários textos distintos seguidas de dados,
+ * pontuação alta. O primeiro item do resultado é o melhor palpite.
+ */
+export const detectHeaderCandidates = (grid: RawGrid): HeaderCandidate[] => {
+  const candidates: HeaderCandidate[] = [];
+  const limit = Math.min(HEADER_SCAN_LIMIT, grid.length);
+
+  for (let i = 0; i < limit; i++) {
+    const row = grid[i] || [];
+    const filled = row.filter(cell => !isEmptyCell(cell));
+    if (filled.length < 2) continue;
+
+    const textCells = filled.filter(cell => typeof cell === 'string');
+    const distinct = new Set(filled.map(cell => String(cell).trim().toLowerCase()));
+    const nextFilled = countFilledCells(grid[i + 1]);
+
+    let score = textCells.length * 2 - (filled.length - textCells.length) * 3;
+    const reasons: string[] = [`${filled.length} células preenchidas`];
+
+    if (textCells.length === filled.length && filled.length >= 3) {
+      score += 5;
+      reasons.push('somente texto');
+    }
+    if (distinct.size === filled.length) {
+      score += 2;
+    } else {
+      score -= filled.length - distinct.size;
+      reasons.push('nomes repetidos');
+    }
+    if (nextFilled > 0 && nextFilled >= filled.length / 2) {
+      score += 3;
+      reasons.push('seguida de dados');
+    }
+
+    candidates.push({ rowIndex: i, score, reason: reasons.join(', ') });
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score || a.rowIndex - b.rowIndex)
+    .slice(0, MAX_HEADER_CANDIDATES);
+};
+
+/**
+ * Define os nomes das colunas a partir da(s) linha(s) de cabeçalho.
+ * Colunas sem nome mas com dados recebem "Coluna N"; nomes repetidos
+ * viram "Nome (2)"; com duas linhas, a de cima é estendida sobre as
+ * células mescladas e combinada com a de baixo.
+ */
+export const resolveHeaders = (grid: RawGrid, options: SheetBuildOptions): ResolvedHeaders => {
+  const { headerRowIndex, headerRowCount = 1, skipRows = 0 } = options;
+  const upperRow = grid[headerRowIndex];
+  const lowerRow = headerRowCount === 2 ? grid[headerRowIndex + 1] : undefined;
+
+  if (!upperRow || (headerRowCount === 2 && !lowerRow)) {
+    throw new ParseError('no-header', 'A linha de cabeçalho selecionada não existe.');
+  }
+
+  const dataStartIndex = headerRowIndex + headerRowCount + skipRows;
+  const dataRows = grid.slice(dataStartIndex);
+
+  // Largura real: cabeçalho ou última célula preenchida de qualquer linha de dados
+  let width = Math.max(upperRow.length, lowerRow?.length ?? 0);
+  dataRows.forEach(row => {
+    for (let i = row.length - 1; i >= width; i--) {
+      if (!isEmptyCell(row[i])) {
+        width = i + 1;
+        break;
+      }
+    }
+  });
+
+  const headers: string[] = [];
+  const columnIndexes: number[] = [];
+  const synthesized: Record<string, SynthesizedHeaderReason> = {};
+  const usedNames = new Set<string>();
+  let carriedUpper = '';
+
+  for (let col = 0; col < width; col++) {
+    const upper = isEmptyCell(upperRow[col]) ? '' : String(upperRow[col]).trim();
+    let name = upper;
+    let reason: SynthesizedHeaderReason | null = null;
+
+    if (lowerRow) {
+      const lower = isEmptyCell(lowerRow[col]) ? '' : String(lowerRow[col]).trim();
+      // Células mescladas: o texto de cima só aparece na primeira coluna do grupo
+      carriedUpper = upper || (lower ? carriedUpper : '');
+      if (carriedUpper && lower) {
+        name = `${carriedUpper} / ${lower}`;
+        reason = 'combined';
+      } else {
+        name = carriedUpper || lower;
+      }
+    }
+
+    if (!name) {
+      const hasData = dataRows.some(row => !isEmptyCell(row[col]));
+      if (!hasData) continue;
+      name = `Coluna ${col + 1}`;
+      reason = 'blank';
+    }
+
+    if (usedNames.has(name)) {
+      let suffix = 2;
+      while (usedNames.has(`${name} (${suffix})`)) suffix++;
+      name = `${name} (${suffix})`;
+      reason = 'duplicate';
+    }
+
+    usedNames.add(name);
+    headers.push(name);
+    columnIndexes.push(col);
+    if (reason) synthesized[name] = reason;
+  }
+
+  if (headers.length === 0) {
+    throw new ParseError('no-columns', 'Nenhuma coluna válida encontrada.');
+  }
+
+  return { headers, columnIndexes, synthesized, dataStartIndex };
+};
+
+// Linhas de dados a partir do cabeçalho resolvido; as vazias ficam de fora
+const buildRows = (grid: RawGrid, resolved: ResolvedHeaders): { rows: Row[]; emptyRowIndexes: number[] } => {
+  const { headers, columnIndexes, dataStartIndex } = resolved;
+  const rows: Row[] = [];
+  const emptyRowIndexes: number[] = [];
+  for (let i = dataStartIndex; i < grid.length; i++) {
+    const rowData = grid[i];
+    const rowObject: Row = {};
+    headers.forEach((header, index) => {
+      rowObject[header] = rowData[columnIndexes[index]] ?? null;
+    });
+    if (Object.values(rowObject).some(val => !isEmptyCell(val))) {
+      rows.push(rowObject);
+    } else {
+      emptyRowIndexes.push(i);
+    }
+  }
+  return { rows, emptyRowIndexes };
+};
+
+/**
+ * Monta o SheetData a partir da grade bruta e da linha de cabeçalho escolhida.
+ */
+export const buildSheetData = (grid: RawGrid, options: SheetBuildOptions): SheetData => {
+  const resolved = resolveHeaders(grid, options);
+  return { headers: resolved.headers, rows: buildRows(grid, resolved).rows };
+};
+
+// Opções de montagem com o melhor candidato a cabeçalho
+export const getDefaultBuildOptions = (sheet: ParsedWorksheet): SheetBuildOptions => ({
+  headerRowIndex: sheet.headerCandidates[0]?.rowIndex ?? 0,
+});
+
+const isDefaultBuild = (sheet: ParsedWorksheet, options: SheetBuildOptions): boolean =>
+  options.headerRowIndex === getDefaultBuildOptions(sheet).headerRowIndex &&
+  (options.headerRowCount ?? 1) === 1 &&
+  (options.skipRows ?? 0) === 0;
+
+/**
+ * Dados de uma aba com o melhor candidato a cabeçalho, já montados na
+ * leitura. As linhas são compartilhadas: não devem ser alteradas.
+ */
+export const buildDefaultSheetData = (sheet: ParsedWorksheet): SheetData => sheet.defaultData;
+
+export const getDefaultHeaders = (sheet: ParsedWorksheet): string[] => sheet.defaultData.headers;
+
+// Grades remontadas, para não repetir o trabalho a cada mudança de opção
+const worksheetGrids = new WeakMap<ParsedWorksheet, RawGrid>();
+
+/**
+ * Grade bruta completa da aba, remontada a partir das primeiras linhas e das
+ * linhas já montadas na leitura. Só é necessária para ler a aba com outro
+ * cabeçalho que não o padrão.
+ */
+export const getWorksheetGrid = (sheet: ParsedWorksheet): RawGrid => {
+  const cached = worksheetGrids.get(sheet);
+  if (cached) return cached;
+
+  const { headers, columnIndexes, dataStartIndex } = sheet.defaultHeaders;
+  const width = Math.max(0, ...columnIndexes) + 1;
+  const emptyRows = new Set(sheet.emptyRowIndexes);
+  const grid: RawGrid = sheet.headRows.slice(0, dataStartIndex);
+  let next = 0;
+  for (let i = dataStartIndex; i < sheet.gridRowCount; i++) {
+    if (emptyRows.has(i)) {
+      grid.push(sheet.headRows[i] ?? []);
+      continue;
+    }
+    const row = sheet.defaultData.rows[next++];
+    if (i < sheet.headRows.length) {
+      grid.push(sheet.headRows[i]);
+      continue;
+    }
+    const cells: CellValue[] = new Array(width).fill(null);
+    headers.forEach((header, index) => {
+      cells[columnIndexes[index]] = row[header] ?? null;
+    });
+    grid.push(cells);
+  }
+
+  worksheetGrids.set(sheet, grid);
+  return grid;
+};
+
+/**
+ * Cabeçalhos da aba com as opções indicadas.
+ */
+export const resolveWorksheetHeaders = (sheet: ParsedWorksheet, options: SheetBuildOptions): ResolvedHeaders =>
+  isDefaultBuild(sheet, options) ? sheet.defaultHeaders : resolveHeaders(getWorksheetGrid(sheet), options);
+
+/**
+ * Monta o SheetData da aba com as opções indicadas. Com as opções padrão,
+ * devolve as linhas já montadas na leitura (que não devem ser alteradas).
+ */
+export const buildWorksheetData = (sheet: ParsedWorksheet, options: SheetBuildOptions): SheetData =>
+  isDefaultBuild(sheet, options) ? sheet.defaultData : buildSheetData(getWorksheetGrid(sheet), options);
+
+/**
+ * Resume a leitura de uma aba para o registro de importação: linha de
+ * cabeçalho usada, linhas lidas e linhas vazias descartadas.
+ */
+export const summarizeWorksheetImport = (
+  fileName: string,
+  sheet: ParsedWorksheet,
+  options: SheetBuildOptions,
+  rowsRead: number
+): ImportFileResult => {
+  const dataStartIndex = options.headerRowIndex + (options.headerRowCount ?? 1) + (options.skipRows ?? 0);
+  return {
+    fileName,
+    worksheet: sheet.name,
+    status: 'imported',
+    rowsRead,
+    emptyRowsSkipped: Math.max(0, sheet.gridRowCount - dataStartIndex - rowsRead),
+    headerRowIndex: options.headerRowIndex,
+    headerRowCount: options.headerRowCount ?? 1,
+  };
+};
+
+export const headersMatch = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((header, i) => header === b[i]);
+
+/**
+ * Converte uma grade bruta em uma aba analisada, ou null se ela não tiver
+ * dados suficientes para conter cabeçalho e linhas.
+ */
+export const analyzeGrid = (name: string, grid: RawGrid): ParsedWorksheet | null => {
+  const rowCount = grid.filter(row => countFilledCells(row) > 0).length;
+  if (rowCount < 2) return null;
+
+  const headerCandidates = detectHeaderCandidates(grid);
+  if (headerCandidates.length === 0) return null;
+
+  return createWorksheet(name, grid, headerCandidates, rowCount);
+};
+
+/**
+ * Monta as linhas com o primeiro candidato a cabeçalho e guarda só o topo da
+ * grade bruta; o restante dela pode ser remontado com getWorksheetGrid.
+ */
+const createWorksheet = (
+  name: string,
+  grid: RawGrid,
+  headerCandidates: HeaderCandidate[],
+  rowCount: number
+): ParsedWorksheet => {
+  const defaultHeaders = resolveHeaders(grid, { headerRowIndex: headerCandidates[0].rowIndex });
+  const { rows, emptyRowIndexes } = buildRows(grid, defaultHeaders);
+  const defaultData: SheetData = { headers: defaultHeaders.headers, rows };
+
+  return {
+    name,
+    headRows: grid.slice(0, Math.max(HEAD_ROW_LIMIT, defaultHeaders.dataStartIndex)),
+    headerCandidates,
+    rowCount,
+    columnCount: grid.reduce((max, row) => Math.max(max, row.length), 0),
+    gridRowCount: grid.length,
+    defaultData,
+    defaultHeaders,
+    emptyRowIndexes,
+    estimatedBytes: estimateJsonSize(defaultData),
+  };
+};
+
+/**
+ * Junta várias abas com o mesmo cabeçalho em uma única grade, com o
+ * cabeçalho na primeira linha. Se sourceColumn for informado, acrescenta
+ * uma coluna com o nome da aba de origem de cada linha.
+ */
+export const combineWorksheets = (
+  name: string,
+  sheets: ParsedWorksheet[],
+  sourceColumn?: string
+): ParsedWorksheet => {
+  const parts = sheets.map(sheet => ({ sheet, data: buildDefaultSheetData(sheet) }));
+  const headers = parts[0].data.headers;
+
+  const mismatch = parts.find(part => !headersMatch(part.data.headers, headers));
+  if (mismatch) {
+    throw new ParseError('no-header', `O cabeçalho da aba "${mismatch.sheet.name}" não corresponde ao da aba "${parts[0].sheet.name}".`);
+  }
+
+  const grid: RawGrid = [sourceColumn ? [...headers, sourceColumn] : [...headers]];
+  parts.forEach(({ sheet, data }) => {
+    data.rows.forEach(row => {
+      const values: CellValue[] = headers.map(header => row[header] ?? null);
+      grid.push(sourceColumn ? [...values, sheet.name] : values);
+    });
+  });
+
+  return createWorksheet(name, grid, [{ rowIndex: 0, score: 0, reason: `${sheets.length} abas combinadas` }], grid.length);
+};
+
+/**
+ * Lê (ou relê, com outras opções) um arquivo CSV/TSV como uma única aba.
+ */
+export const parseTextWorksheet = (
+  name: string,
+  bytes: Uint8Array,
+  options: TextImportOptions
+): ParsedWorksheet | null => {
+  const sheet = analyzeGrid(name, parseDelimitedText(bytes, options));
+  return sheet ? { ...sheet, textImport: { bytes, options } } : null;
+};
+
+/**
+ * Interpreta o conteúdo de um arquivo (Excel, ODS, CSV ou TSV) e devolve
+ * todas as abas com dados, cada uma com os candidatos a cabeçalho já
+ * classificados e as linhas montadas com o melhor deles. onRowsParsed recebe o total acumulado de
+ * linhas lidas, para indicar progresso.
+ */
+export const parseWorkbookBuffer = (
+  fileName: string,
+  buffer: ArrayBuffer,
+  onRowsParsed?: (rows: number) => void
+): ParsedWorkbook => {
+  if (TEXT_FILE_PATTERN.test(fileName)) {
+    const bytes = new Uint8Array(buffer);
+    const options = detectTextImportOptions(bytes, /\.tsv$/i.test(fileName));
+    const sheet = parseTextWorksheet(fileName.replace(TEXT_FILE_PATTERN, ''), bytes, options);
+    if (!sheet) {
+      throw new ParseError('empty', `${fileName}: Arquivo vazio ou sem dados suficientes.`);
+    }
+    onRowsParsed?.(sheet.gridRowCount);
+    return { fileName, sheets: [sheet] };
+  }
+
+  let workbook: XLSX.WorkBook;
+  try {
+    // cellNF preserva o formato numérico, usado para reconhecer datas
+    workbook = XLSX.read(buffer, { type: 'array', cellNF: true });
+  } catch {
+    throw new ParseError('invalid-format', `${fileName}: Formato de arquivo não reconhecido.`);
+  }
+
+  const sheets: ParsedWorksheet[] = [];
+  let rowsParsed = 0;
+  workbook.SheetNames.forEach(sheetName => {
+    const grid = worksheetToGrid(workbook.Sheets[sheetName]);
+    rowsParsed += grid.length;
+    onRowsParsed?.(rowsParsed);
+
+    const sheet = analyzeGrid(sheetName, grid);
+    if (sheet) sheets.push(sheet);
+  });
+
+  if (sheets.length === 0) {
+    throw new ParseError('empty', `${fileName}: Planilha vazia ou sem dados suficientes.`);
+  }
+
+  return { fileName, sheets };
+};
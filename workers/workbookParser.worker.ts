@@ -0,0 +1,37 @@
+import { parseWorkbookBuffer, ParseError } from '../utils/workbookParser';
+import type { ParserRequest, ParserResponse } from '../utils/parserClient';
+
+// Worker de importação: leitura do SheetJS, detecção de cabeçalho, montagem
+// das linhas e estimativa de tamanho acontecem aqui, fora da thread da
+// interface. Da grade bruta só voltam as primeiras linhas, para que os dados
+// não sejam copiados duas vezes entre as threads.
+const ctx = self as unknown as Worker;
+
+// Intervalo mínimo entre mensagens de progresso
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: ParserResponse) => ctx.postMessage(message);
+
+ctx.onmessage = (e: MessageEvent<ParserRequest>) => {
+  const { fileName, buffer } = e.data;
+  let lastProgress = 0;
+
+  try {
+    const workbook = parseWorkbookBuffer(fileName, buffer, rowsParsed => {
+      const now = Date.now();
+      if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+        lastProgress = now;
+        post({ type: 'progress', rowsParsed });
+      }
+    });
+
+    post({ type: 'progress', rowsParsed: workbook.sheets.reduce((total, sheet) => total + sheet.gridRowCount, 0) });
+    post({ type: 'done', workbook });
+  } catch (error) {
+    post({
+      type: 'error',
+      code: error instanceof ParseError ? error.code : 'unknown',
+      message: error instanceof Error ? error.message : `${fileName}: Erro ao processar o arquivo.`,
+    });
+  }
+};